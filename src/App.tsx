@@ -20,6 +20,10 @@ import { ScrollToTop } from "./components/common/ScrollToTop";
 import { AppErrorBoundary } from "./components/common/AppErrorBoundary";
 import Home from "./pages/Dashboard/Home";
 import Transactions from "./pages/Dashboard/Transactions";
+import TransactionDetail from "./pages/Dashboard/TransactionDetail";
+import TopUp from "./pages/Dashboard/TopUp";
+import Transfer from "./pages/Dashboard/Transfer";
+import Settings from "./pages/Dashboard/Settings";
 import RequireAuth from "./components/auth/RequireAuth";
 
 export default function App() {
@@ -40,6 +44,13 @@ export default function App() {
               <Route index path="/" element={<Home />} />
 
               <Route path="/transactions" element={<Transactions />} />
+              <Route
+                path="/transactions/:transactionId"
+                element={<TransactionDetail />}
+              />
+              <Route path="/topup" element={<TopUp />} />
+              <Route path="/transfer" element={<Transfer />} />
+              <Route path="/settings" element={<Settings />} />
 
               {/* Others Page */}
               <Route path="/profile" element={<UserProfiles />} />
@@ -0,0 +1,17 @@
+import ReportingFilterControls from "./ReportingFilterControls";
+import { useDashboardFilters } from "../../../context/DashboardFilterContext";
+
+export default function DashboardFilterBar() {
+  const { filters, setFilters, resetFilters } = useDashboardFilters();
+
+  return (
+    <div className="rounded-2xl border border-gray-200 bg-white p-4 dark:border-gray-800 dark:bg-white/[0.03]">
+      <ReportingFilterControls
+        id="dashboard"
+        filters={filters}
+        onChange={setFilters}
+        onReset={resetFilters}
+      />
+    </div>
+  );
+}
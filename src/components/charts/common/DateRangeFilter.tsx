@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import DatePicker from "../../form/date-picker";
+import { useBusinessTimeZone } from "../../../context/BusinessTimeZoneContext";
+import {
+  DATE_RANGE_PRESETS,
+  formatDateRangeLabel,
+  getPreviousRange,
+  resolveDateRange,
+  toCustomDateRange,
+  type DateRangeValue,
+} from "../../../lib/dateRanges";
+
+interface DateRangeFilterProps {
+  id: string;
+  value: DateRangeValue;
+  onChange: (value: DateRangeValue) => void;
+}
+
+// Calendar dates picked in flatpickr are plain local dates; only their
+// year/month/day matter, the business timezone is applied when resolving.
+function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export default function DateRangeFilter({
+  id,
+  value,
+  onChange,
+}: DateRangeFilterProps) {
+  const { timeZone } = useBusinessTimeZone();
+  const dates = resolveDateRange(value, timeZone);
+  const previous = getPreviousRange(dates);
+
+  // The picker is re-created whenever its props change, so its dates are
+  // joined into a string and its handler reads the latest `onChange` from a
+  // ref; callers can then pass an inline `onChange`.
+  const { from, to } = toCustomDateRange(dates);
+  const pickerKey = from && to ? `${from},${to}` : "";
+  const pickerDates = useMemo(
+    () => (pickerKey ? pickerKey.split(",") : undefined),
+    [pickerKey],
+  );
+
+  const onChangeRef = useRef(onChange);
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  const handlePick = useCallback((selectedDates: Date[]) => {
+    if (selectedDates.length !== 2) return;
+
+    onChangeRef.current({
+      key: "custom",
+      from: toDateString(selectedDates[0]),
+      to: toDateString(selectedDates[1]),
+    });
+  }, []);
+
+  return (
+    <div className="flex flex-col gap-3 lg:flex-row lg:items-center">
+      <div className="flex flex-wrap items-center gap-0.5 rounded-lg bg-gray-100 p-0.5 dark:bg-gray-900">
+        {DATE_RANGE_PRESETS.map(({ key, label }) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => onChange({ key })}
+            className={`px-3 py-2 text-xs font-medium rounded-md text-theme-sm hover:text-gray-900 dark:hover:text-white ${
+              value.key === key
+                ? "shadow-theme-xs text-gray-900 dark:text-white bg-white dark:bg-gray-800"
+                : "text-gray-500 dark:text-gray-400"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="w-full lg:w-64">
+        <DatePicker
+          id={id}
+          mode="range"
+          placeholder="Custom range"
+          defaultDate={pickerDates}
+          onChange={handlePick}
+        />
+      </div>
+
+      <button
+        type="button"
+        disabled={!previous}
+        onClick={() => previous && onChange(toCustomDateRange(previous))}
+        className="text-xs font-medium text-brand-500 hover:text-brand-600 disabled:cursor-not-allowed disabled:opacity-50 dark:text-brand-400"
+      >
+        Previous period
+      </button>
+
+      <span className="text-xs text-gray-500 dark:text-gray-400 lg:ml-auto">
+        {formatDateRangeLabel(dates)}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState, type FormEvent } from "react";
+import DateRangeFilter from "./DateRangeFilter";
+import type {
+  ReportingFilters,
+  TxTypeFilter,
+} from "../../../hooks/useReporting";
+
+const TYPE_OPTIONS: { key: TxTypeFilter; label: string }[] = [
+  { key: "ALL", label: "All" },
+  { key: "DEBIT", label: "Debit" },
+  { key: "CREDIT", label: "Credit" },
+];
+
+interface ReportingFilterControlsProps {
+  // Prefix for the date picker's element id, unique per instance.
+  id: string;
+  filters: ReportingFilters;
+  onChange: (patch: Partial<ReportingFilters>) => void;
+  onReset?: () => void;
+  // Hidden for widgets the transaction type does not apply to.
+  showTypeFilter?: boolean;
+}
+
+// Range, type and username focus, shared by the dashboard filter bar and
+// unlinked widgets.
+export default function ReportingFilterControls({
+  id,
+  filters,
+  onChange,
+  onReset,
+  showTypeFilter = true,
+}: ReportingFilterControlsProps) {
+  const [usernameInput, setUsernameInput] = useState(filters.username ?? "");
+  const [appliedUsername, setAppliedUsername] = useState(filters.username);
+
+  // The draft follows the applied username when it changes elsewhere, e.g.
+  // after a reset or when a widget is linked back to the dashboard.
+  if (filters.username !== appliedUsername) {
+    setAppliedUsername(filters.username);
+    setUsernameInput(filters.username ?? "");
+  }
+
+  const handleFocusUser = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    onChange({ username: usernameInput.trim() || null });
+  };
+
+  const handleReset = () => {
+    setUsernameInput("");
+    onReset?.();
+  };
+
+  return (
+    <div className="space-y-3">
+      <DateRangeFilter
+        id={`${id}-date-range`}
+        value={filters.range}
+        onChange={(range) => onChange({ range })}
+      />
+
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+        {showTypeFilter && (
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              Type:
+            </span>
+            <div className="flex items-center gap-0.5 rounded-lg bg-gray-100 p-0.5 dark:bg-gray-900">
+              {TYPE_OPTIONS.map(({ key, label }) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => onChange({ typeFilter: key })}
+                  className={`px-3 py-1.5 text-xs font-medium rounded-md hover:text-gray-900 dark:hover:text-white ${
+                    filters.typeFilter === key
+                      ? "bg-white text-gray-900 shadow-theme-xs dark:bg-gray-800 dark:text-white"
+                      : "text-gray-500 dark:text-gray-400"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleFocusUser} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={usernameInput}
+            onChange={(event) => setUsernameInput(event.target.value)}
+            placeholder="Focus on username"
+            aria-label="Focus on username"
+            className="h-8 w-44 rounded-lg border border-gray-300 bg-transparent px-2 text-xs text-gray-800 shadow-theme-xs placeholder:text-gray-400 focus:border-brand-300 focus:outline-hidden focus:ring-2 focus:ring-brand-500/10 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30 dark:focus:border-brand-800"
+          />
+          <button
+            type="submit"
+            className="text-xs font-medium text-brand-500 hover:text-brand-600 dark:text-brand-400"
+          >
+            Apply
+          </button>
+        </form>
+
+        {onReset && (
+          <button
+            type="button"
+            onClick={handleReset}
+            className="text-xs font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300 sm:ml-auto"
+          >
+            Reset filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import Badge from "../../ui/badge/Badge";
+import ReportingFilterControls from "./ReportingFilterControls";
+import type { ReportingFilters } from "../../../hooks/useReporting";
+
+interface WidgetFilterHeaderProps {
+  // Unique per widget; used for the date picker's element id.
+  id: string;
+  filters: ReportingFilters;
+  linked: boolean;
+  onLink: () => void;
+  onUnlink: () => void;
+  onLocalChange: (patch: Partial<ReportingFilters>) => void;
+  showTypeFilter?: boolean;
+}
+
+// Shows whether a dashboard widget follows the global filter bar and, once
+// unlinked, lets it set its own filters. Unlinking is always explicit.
+export default function WidgetFilterHeader({
+  id,
+  filters,
+  linked,
+  onLink,
+  onUnlink,
+  onLocalChange,
+  showTypeFilter,
+}: WidgetFilterHeaderProps) {
+  return (
+    <div className="mb-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge color={linked ? "success" : "warning"} size="sm">
+          {linked ? "Linked" : "Unlinked"}
+        </Badge>
+        <button
+          type="button"
+          onClick={linked ? onUnlink : onLink}
+          className="text-xs font-medium text-brand-500 hover:text-brand-600 dark:text-brand-400"
+        >
+          {linked ? "Use own filters" : "Follow dashboard filters"}
+        </button>
+      </div>
+
+      {!linked && (
+        <div className="rounded-xl bg-gray-50 p-3 dark:bg-white/[0.02]">
+          <ReportingFilterControls
+            id={id}
+            filters={filters}
+            onChange={onLocalChange}
+            showTypeFilter={showTypeFilter}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,21 @@
 import { useEffect, useMemo } from "react";
 import Chart from "react-apexcharts";
 import type { ApexOptions } from "apexcharts";
-import {
-  useTopTransactionsPerUser,
-  type RangeKey,
-} from "../../../hooks/useReporting";
+import { useTopTransactionsPerUser } from "../../../hooks/useReporting";
+import { useWidgetFilters } from "../../../hooks/useWidgetFilters";
 import { formatAmount } from "../../../lib/formatters";
 import ChartSkeleton from "../common/ChartSkeleton";
+import WidgetFilterHeader from "../common/WidgetFilterHeader";
 import { useToast } from "../../common/ToastProvider";
 
+// /top_transactions_per_user only takes a date range, so there is no type
+// filter here; a username focus highlights that user's bar.
 export default function TopTransactionsPerUserChart() {
-  const { hasToken, data, loading, error, range, setRange } =
-    useTopTransactionsPerUser();
+  const { filters, linked, setLocalFilters, link, unlink } = useWidgetFilters();
+  const { hasToken, data, loading, error } = useTopTransactionsPerUser(
+    filters.range,
+  );
+  const focusedUsername = filters.username;
 
   const { showToast } = useToast();
 
@@ -22,10 +26,7 @@ export default function TopTransactionsPerUserChart() {
     showToast(message, "error");
   }, [error, showToast]);
 
-  const categories = useMemo(
-    () => data.map((item) => item.username),
-    [data],
-  );
+  const categories = useMemo(() => data.map((item) => item.username), [data]);
 
   const series = useMemo(
     () => [
@@ -81,7 +82,12 @@ export default function TopTransactionsPerUserChart() {
         formatter: (val: number) => val.toLocaleString("en-US"),
       },
     },
-    colors: ["#465FFF"],
+    colors: [
+      ({ dataPointIndex }: { dataPointIndex: number }) =>
+        focusedUsername && categories[dataPointIndex] === focusedUsername
+          ? "#FB6514"
+          : "#465FFF",
+    ],
   };
 
   if (!hasToken) {
@@ -93,11 +99,6 @@ export default function TopTransactionsPerUserChart() {
   }
 
   const isEmpty = data.length === 0;
-  const ranges: { key: RangeKey; label: string }[] = [
-    { key: "7d", label: "7D" },
-    { key: "30d", label: "30D" },
-    { key: "all", label: "All" },
-  ];
 
   let body;
   if (loading && isEmpty) {
@@ -122,10 +123,7 @@ export default function TopTransactionsPerUserChart() {
             loading ? "opacity-100" : "opacity-0"
           }`}
         >
-          <ChartSkeleton
-            minWidthClass="w-full"
-            opacityClass="opacity-60"
-          />
+          <ChartSkeleton minWidthClass="w-full" opacityClass="opacity-60" />
         </div>
         <div className="h-full">
           <Chart options={options} series={series} type="bar" height={260} />
@@ -136,26 +134,16 @@ export default function TopTransactionsPerUserChart() {
 
   return (
     <div className="max-w-full overflow-x-auto custom-scrollbar">
-      <div className="flex items-center justify-end mb-3">
-        <div className="flex items-center gap-0.5 rounded-lg bg-gray-100 p-0.5 dark:bg-gray-900">
-          {ranges.map(({ key, label }) => (
-            <button
-              key={key}
-              type="button"
-              onClick={() => setRange(key)}
-              className={`px-3 py-1.5 text-xs font-medium rounded-md text-theme-sm hover:text-gray-900 dark:hover:text-white ${
-                range === key
-                  ? "shadow-theme-xs text-gray-900 dark:text-white bg-white dark:bg-gray-800"
-                  : "text-gray-500 dark:text-gray-400"
-              }`}
-            >
-              {label}
-            </button>
-          ))}
-        </div>
-      </div>
+      <WidgetFilterHeader
+        id="top-transactions-per-user"
+        filters={filters}
+        linked={linked}
+        onLink={link}
+        onUnlink={unlink}
+        onLocalChange={setLocalFilters}
+        showTypeFilter={false}
+      />
       {body}
     </div>
   );
 }
-
@@ -1,18 +1,28 @@
 import { useEffect, useMemo } from "react";
+import { useNavigate } from "react-router";
 import Chart from "react-apexcharts";
 import type { ApexOptions } from "apexcharts";
-import {
-  useTopUsersLeaderboard,
-  type RangeKey,
-} from "../../../hooks/useReporting";
+import { useTopUsersLeaderboard } from "../../../hooks/useReporting";
+import { useWidgetFilters } from "../../../hooks/useWidgetFilters";
+import { useBusinessTimeZone } from "../../../context/BusinessTimeZoneContext";
+import { resolveDateRange, toCustomDateRange } from "../../../lib/dateRanges";
 import { formatAmount } from "../../../lib/formatters";
+import { getTransactionsLink } from "../../../lib/transactionLinks";
 import ChartSkeleton from "../common/ChartSkeleton";
+import WidgetFilterHeader from "../common/WidgetFilterHeader";
 import { useToast } from "../../common/ToastProvider";
 
+// Ranks users by the value they sent, so only the range narrows it; a
+// username focus highlights that user's bar instead of filtering.
 export default function TopUsersChart() {
-  const { hasToken, data, loading, error, range, setRange } =
-    useTopUsersLeaderboard();
+  const { filters, linked, setLocalFilters, link, unlink } = useWidgetFilters();
+  const { hasToken, data, loading, error } = useTopUsersLeaderboard(
+    filters.range,
+  );
+  const focusedUsername = filters.username;
 
+  const navigate = useNavigate();
+  const { timeZone } = useBusinessTimeZone();
   const { showToast } = useToast();
 
   useEffect(() => {
@@ -22,9 +32,10 @@ export default function TopUsersChart() {
     showToast(message, "error");
   }, [error, showToast]);
 
-  const categories = useMemo(
-    () => data.map((item) => item.username),
-    [data],
+  const categories = useMemo(() => data.map((item) => item.username), [data]);
+
+  const { from: dateFrom, to: dateTo } = toCustomDateRange(
+    resolveDateRange(filters.range, timeZone),
   );
 
   const series = useMemo(
@@ -37,52 +48,70 @@ export default function TopUsersChart() {
     [data],
   );
 
-  const options: ApexOptions = {
-    chart: {
-      type: "bar",
-      height: 260,
-      toolbar: {
-        show: false,
+  const options: ApexOptions = useMemo(() => {
+    // Clicking a bar opens that user's outgoing transactions for the range.
+    const openUserTransactions = (dataPointIndex: number) => {
+      const username = categories[dataPointIndex];
+      if (!username) return;
+      navigate(getTransactionsLink({ from: username, dateFrom, dateTo }));
+    };
+
+    return {
+      chart: {
+        type: "bar",
+        height: 260,
+        toolbar: {
+          show: false,
+        },
+        fontFamily: "Outfit, sans-serif",
+        events: {
+          dataPointSelection: (_event, _chart, config) =>
+            openUserTransactions(config.dataPointIndex),
+        },
       },
-      fontFamily: "Outfit, sans-serif",
-    },
-    plotOptions: {
-      bar: {
-        horizontal: true,
-        borderRadius: 4,
-        barHeight: "60%",
+      plotOptions: {
+        bar: {
+          horizontal: true,
+          borderRadius: 4,
+          barHeight: "60%",
+        },
+      },
+      dataLabels: {
+        enabled: false,
       },
-    },
-    dataLabels: {
-      enabled: false,
-    },
-    xaxis: {
-      categories,
-      labels: {
-        formatter: (val) => {
-          const num = Number(val);
-          if (!Number.isFinite(num)) {
-            return String(val);
-          }
-          const normalized = Math.abs(num) < 1e-6 ? 0 : num;
-          return formatAmount(normalized);
+      xaxis: {
+        categories,
+        labels: {
+          formatter: (val) => {
+            const num = Number(val);
+            if (!Number.isFinite(num)) {
+              return String(val);
+            }
+            const normalized = Math.abs(num) < 1e-6 ? 0 : num;
+            return formatAmount(normalized);
+          },
         },
       },
-    },
-    yaxis: {
-      labels: {
-        style: {
-          fontSize: "12px",
+      yaxis: {
+        labels: {
+          style: {
+            fontSize: "12px",
+          },
         },
       },
-    },
-    tooltip: {
-      y: {
-        formatter: (val: number) => val.toLocaleString("en-US"),
+      tooltip: {
+        y: {
+          formatter: (val: number) => val.toLocaleString("en-US"),
+        },
       },
-    },
-    colors: ["#9CB9FF"],
-  };
+      colors: [
+        ({ dataPointIndex }: { dataPointIndex: number }) =>
+          focusedUsername && categories[dataPointIndex] === focusedUsername
+            ? "#FB6514"
+            : "#9CB9FF",
+      ],
+    };
+  }, [categories, focusedUsername, dateFrom, dateTo, navigate]);
 
   if (!hasToken) {
     return (
@@ -93,11 +122,6 @@ export default function TopUsersChart() {
   }
 
   const isEmpty = data.length === 0;
-  const ranges: { key: RangeKey; label: string }[] = [
-    { key: "7d", label: "7D" },
-    { key: "30d", label: "30D" },
-    { key: "all", label: "All" },
-  ];
 
   let body;
   if (loading && isEmpty) {
@@ -122,10 +146,7 @@ export default function TopUsersChart() {
             loading ? "opacity-100" : "opacity-0"
           }`}
         >
-          <ChartSkeleton
-            minWidthClass="w-full"
-            opacityClass="opacity-60"
-          />
+          <ChartSkeleton minWidthClass="w-full" opacityClass="opacity-60" />
         </div>
         <div className="h-full">
           <Chart options={options} series={series} type="bar" height={260} />
@@ -136,26 +157,16 @@ export default function TopUsersChart() {
 
   return (
     <div className="max-w-full overflow-x-auto custom-scrollbar">
-      <div className="flex items-center justify-end mb-3">
-        <div className="flex items-center gap-0.5 rounded-lg bg-gray-100 p-0.5 dark:bg-gray-900">
-          {ranges.map(({ key, label }) => (
-            <button
-              key={key}
-              type="button"
-              onClick={() => setRange(key)}
-              className={`px-3 py-1.5 text-xs font-medium rounded-md text-theme-sm hover:text-gray-900 dark:hover:text-white ${
-                range === key
-                  ? "shadow-theme-xs text-gray-900 dark:text-white bg-white dark:bg-gray-800"
-                  : "text-gray-500 dark:text-gray-400"
-              }`}
-            >
-              {label}
-            </button>
-          ))}
-        </div>
-      </div>
+      <WidgetFilterHeader
+        id="top-users"
+        filters={filters}
+        linked={linked}
+        onLink={link}
+        onUnlink={unlink}
+        onLocalChange={setLocalFilters}
+        showTypeFilter={false}
+      />
       {body}
     </div>
   );
 }
-
@@ -1,26 +1,59 @@
-import { useEffect, useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router";
 import Chart from "react-apexcharts";
 import type { ApexOptions } from "apexcharts";
 import {
+  summarizeVolume,
   useTransactionsVolume,
-  type RangeKey,
-  type TxTypeFilter,
+  type GranularityMode,
 } from "../../../hooks/useReporting";
+import { useWidgetFilters } from "../../../hooks/useWidgetFilters";
+import { useBusinessTimeZone } from "../../../context/BusinessTimeZoneContext";
+import { resolveDateRange, toCustomDateRange } from "../../../lib/dateRanges";
 import { formatAmount } from "../../../lib/formatters";
+import {
+  formatBucketLabel,
+  getBucketDateRange,
+} from "../../../lib/timeBuckets";
+import { getTransactionsLink } from "../../../lib/transactionLinks";
 import ChartSkeleton from "../common/ChartSkeleton";
+import WidgetFilterHeader from "../common/WidgetFilterHeader";
+import VolumeSummaryCards from "./VolumeSummaryCards";
+import Switch from "../../form/switch/Switch";
 import { useToast } from "../../common/ToastProvider";
 
+type VolumeSeries = {
+  name: string;
+  type: "bar" | "line";
+  data: number[];
+  color: string;
+  axis: "amount" | "net" | "count";
+  dashed?: boolean;
+};
+
+function formatSeriesValue(axis: VolumeSeries["axis"], val: number): string {
+  return axis === "count" ? val.toLocaleString("en-US") : formatAmount(val);
+}
+
 export default function TransactionsVolumeChart() {
+  const { filters, linked, setLocalFilters, link, unlink } = useWidgetFilters();
   const {
     hasToken,
     data: points,
+    truncated,
+    previousData: previousPoints,
+    canCompare,
+    compare,
+    setCompare,
     loading,
     error,
-    range,
-    setRange,
-    typeFilter,
-    setTypeFilter,
-  } = useTransactionsVolume();
+    granularity,
+    granularityMode,
+    setGranularityMode,
+  } = useTransactionsVolume(filters);
+  const [showCount, setShowCount] = useState(false);
+  const navigate = useNavigate();
+  const { timeZone } = useBusinessTimeZone();
 
   const { showToast } = useToast();
 
@@ -32,43 +65,162 @@ export default function TransactionsVolumeChart() {
   }, [error, showToast]);
 
   const categories = useMemo(
-    () => points.map((p) => p.date),
-    [points],
+    () => points.map((p) => formatBucketLabel(p.date, granularity)),
+    [points, granularity],
   );
 
-  const series = useMemo(
-    () => [
+  const previousLabels = useMemo(
+    () => previousPoints.map((p) => formatBucketLabel(p.date, granularity)),
+    [previousPoints, granularity],
+  );
+
+  const showPrevious = compare && previousPoints.length > 0;
+
+  // Credit and debit are stacked bars on the amount axis; net flow and the
+  // transaction count get their own axes so their scale stays readable.
+  const chartSeries = useMemo(() => {
+    const list: VolumeSeries[] = [
+      {
+        name: "Credit",
+        type: "bar",
+        data: points.map((p) => p.credit),
+        color: "#12B76A",
+        axis: "amount",
+      },
       {
-        name: "Total volume",
-        data: points.map((p) => p.totalAmount),
+        name: "Debit",
+        type: "bar",
+        data: points.map((p) => p.debit),
+        color: "#F04438",
+        axis: "amount",
       },
-    ],
-    [points],
+      {
+        name: "Net flow",
+        type: "line",
+        data: points.map((p) => p.net),
+        color: "#465FFF",
+        axis: "net",
+      },
+    ];
+
+    if (showPrevious) {
+      list.push({
+        name: "Previous period",
+        type: "line",
+        data: previousPoints.map((p) => p.credit + p.debit),
+        color: "#9CB9FF",
+        axis: "amount",
+        dashed: true,
+      });
+    }
+
+    if (showCount) {
+      list.push({
+        name: "Transactions",
+        type: "line",
+        data: points.map((p) => p.count),
+        color: "#FB6514",
+        axis: "count",
+      });
+    }
+
+    return list;
+  }, [points, previousPoints, showPrevious, showCount]);
+
+  const series = useMemo(
+    () => chartSeries.map(({ name, type, data }) => ({ name, type, data })),
+    [chartSeries],
+  );
+
+  // The transactions list can only filter by sender or recipient, not by
+  // either party, so drill-down is off while a username focus is set.
+  const canDrillDown = !filters.username;
+  const { from: rangeFrom, to: rangeTo } = toCustomDateRange(
+    resolveDateRange(filters.range, timeZone),
   );
 
-  const options: ApexOptions = useMemo(
-    () => ({
+  const options: ApexOptions = useMemo(() => {
+    // Clicking a bucket opens its transactions; a credit or debit bar also
+    // narrows the list to that type. Week and month buckets are clipped to
+    // the selected range. The previous-period line has no drill-down: its
+    // points belong to another range than the current buckets.
+    const openBucketTransactions = (
+      seriesIndex: number,
+      dataPointIndex: number,
+    ) => {
+      const series = chartSeries[seriesIndex];
+      if (!canDrillDown || series?.dashed) return;
+
+      const point = points[dataPointIndex];
+      const dates = point ? getBucketDateRange(point.date, granularity) : null;
+      if (!dates) return;
+
+      const dateFrom =
+        rangeFrom && rangeFrom > dates.from ? rangeFrom : dates.from;
+      const dateTo = rangeTo && rangeTo < dates.to ? rangeTo : dates.to;
+
+      const seriesName = series?.name;
+      const type =
+        seriesName === "Credit"
+          ? "CREDIT"
+          : seriesName === "Debit"
+            ? "DEBIT"
+            : filters.typeFilter !== "ALL"
+              ? filters.typeFilter
+              : undefined;
+
+      navigate(getTransactionsLink({ dateFrom, dateTo, type }));
+    };
+
+    // Series on a shared axis point at the first series of that axis and
+    // hide their own labels.
+    const yaxis: ApexYAxis[] = chartSeries.map((item, index) => {
+      const first = chartSeries.find((other) => other.axis === item.axis);
+      return {
+        seriesName: first?.name,
+        show: first === chartSeries[index],
+        opposite: item.axis !== "amount",
+        labels: {
+          formatter: (val) =>
+            typeof val === "number"
+              ? formatSeriesValue(item.axis, val)
+              : String(val),
+          style: {
+            fontSize: "12px",
+          },
+        },
+      };
+    });
+
+    return {
       chart: {
-        type: "area",
+        type: "line",
         height: 260,
+        stacked: true,
+        stackOnlyBar: true,
         toolbar: {
           show: false,
         },
         fontFamily: "Outfit, sans-serif",
+        events: {
+          click: (_event, _chart, config) => {
+            if (config.dataPointIndex < 0) return;
+            openBucketTransactions(config.seriesIndex, config.dataPointIndex);
+          },
+        },
       },
-      colors: ["#465FFF"],
+      colors: chartSeries.map((item) => item.color),
       dataLabels: {
         enabled: false,
       },
       stroke: {
         curve: "straight",
-        width: 2,
+        width: chartSeries.map((item) => (item.type === "line" ? 2 : 0)),
+        dashArray: chartSeries.map((item) => (item.dashed ? 5 : 0)),
       },
-      fill: {
-        type: "gradient",
-        gradient: {
-          opacityFrom: 0.4,
-          opacityTo: 0,
+      plotOptions: {
+        bar: {
+          columnWidth: "60%",
         },
       },
       grid: {
@@ -79,9 +231,15 @@ export default function TransactionsVolumeChart() {
           lines: { show: true },
         },
       },
+      legend: {
+        position: "top",
+        horizontalAlign: "left",
+      },
       xaxis: {
         type: "category",
         categories,
+        // Thin out labels on long series so they stay readable.
+        tickAmount: categories.length > 12 ? 12 : undefined,
         labels: {
           rotate: -45,
           style: {
@@ -91,23 +249,40 @@ export default function TransactionsVolumeChart() {
         axisBorder: { show: false },
         axisTicks: { show: false },
       },
-      yaxis: {
-        labels: {
-          formatter: (val) =>
-            typeof val === "number" ? formatAmount(val) : String(val),
-          style: {
-            fontSize: "12px",
-          },
-        },
-      },
+      yaxis,
       tooltip: {
+        shared: true,
+        intersect: false,
         y: {
-          formatter: (val: number) => formatAmount(val),
+          // Previous-period values are labelled with their own bucket.
+          formatter: (
+            val: number,
+            opts?: { seriesIndex: number; dataPointIndex: number },
+          ) => {
+            const item = opts ? chartSeries[opts.seriesIndex] : undefined;
+            if (!opts || !item) return formatAmount(val);
+
+            const formatted = formatSeriesValue(item.axis, val);
+            const label = item.dashed
+              ? previousLabels[opts.dataPointIndex]
+              : undefined;
+            return label ? `${formatted} (${label})` : formatted;
+          },
         },
       },
-    }),
-    [categories],
-  );
+    };
+  }, [
+    categories,
+    chartSeries,
+    previousLabels,
+    points,
+    granularity,
+    filters.typeFilter,
+    canDrillDown,
+    rangeFrom,
+    rangeTo,
+    navigate,
+  ]);
 
   if (!hasToken) {
     return (
@@ -117,16 +292,12 @@ export default function TransactionsVolumeChart() {
     );
   }
 
-  const ranges: { key: RangeKey; label: string }[] = [
-    { key: "7d", label: "7D" },
-    { key: "30d", label: "30D" },
-    { key: "all", label: "All" },
-  ];
-
-  const types: { key: TxTypeFilter; label: string }[] = [
-    { key: "ALL", label: "All" },
-    { key: "DEBIT", label: "Debit" },
-    { key: "CREDIT", label: "Credit" },
+  const granularities: { key: GranularityMode; label: string }[] = [
+    { key: "auto", label: "Auto" },
+    { key: "hour", label: "Hour" },
+    { key: "day", label: "Day" },
+    { key: "week", label: "Week" },
+    { key: "month", label: "Month" },
   ];
 
   const isEmpty = points.length === 0;
@@ -154,50 +325,69 @@ export default function TransactionsVolumeChart() {
             loading ? "opacity-100" : "opacity-0"
           }`}
         >
-          <ChartSkeleton
-            minWidthClass="w-full"
-            opacityClass="opacity-60"
-          />
+          <ChartSkeleton minWidthClass="w-full" opacityClass="opacity-60" />
         </div>
         <div className="h-full">
-          <Chart options={options} series={series} type="area" height={260} />
+          <Chart options={options} series={series} type="line" height={260} />
         </div>
       </div>
     );
   }
 
+  const summary = isEmpty ? null : (
+    <VolumeSummaryCards
+      current={summarizeVolume(points)}
+      previous={showPrevious ? summarizeVolume(previousPoints) : null}
+    />
+  );
+
+  let drillDownNotice = null;
+  if (!canDrillDown && !isEmpty) {
+    drillDownNotice = (
+      <p className="mb-3 text-xs text-gray-500 dark:text-gray-400">
+        Clear the username focus to open a bucket&apos;s transactions.
+      </p>
+    );
+  }
+
+  let truncatedNotice = null;
+  if (truncated && !isEmpty) {
+    truncatedNotice = (
+      <p className="mb-3 text-xs text-warning-600 dark:text-orange-400">
+        This range has more transactions than could be loaded, so the volume
+        shown is incomplete. Narrow the range for exact totals.
+      </p>
+    );
+  }
+
   return (
     <div className="max-w-full overflow-x-auto custom-scrollbar">
-      <div className="flex flex-col items-stretch gap-3 mb-4 sm:flex-row sm:items-center sm:justify-between">
+      <WidgetFilterHeader
+        id="transactions-volume"
+        filters={filters}
+        linked={linked}
+        onLink={link}
+        onUnlink={unlink}
+        onLocalChange={setLocalFilters}
+      />
+      <div className="flex flex-col flex-wrap items-stretch gap-3 mb-4 sm:flex-row sm:items-center sm:justify-between">
         <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            Group by:
+          </span>
           <div className="flex items-center gap-0.5 rounded-lg bg-gray-100 p-0.5 dark:bg-gray-900">
-            {ranges.map(({ key, label }) => (
+            {granularities.map(({ key, label }) => (
               <button
                 key={key}
                 type="button"
-                onClick={() => setRange(key)}
-                className={`px-3 py-2 text-xs font-medium rounded-md text-theme-sm hover:text-gray-900 dark:hover:text-white ${
-                  range === key
-                    ? "shadow-theme-xs text-gray-900 dark:text-white bg-white dark:bg-gray-800"
-                    : "text-gray-500 dark:text-gray-400"
-                }`}
-              >
-                {label}
-              </button>
-            ))}
-          </div>
-        </div>
-
-        <div className="flex items-center gap-2">
-          <span className="text-xs text-gray-500 dark:text-gray-400">Type:</span>
-          <div className="flex items-center gap-0.5 rounded-lg bg-gray-100 p-0.5 dark:bg-gray-900">
-            {types.map(({ key, label }) => (
-              <button
-                key={key}
-                type="button"
-                onClick={() => setTypeFilter(key)}
+                onClick={() => setGranularityMode(key)}
+                title={
+                  key === "auto"
+                    ? `Currently grouped by ${granularity}`
+                    : undefined
+                }
                 className={`px-3 py-1.5 text-xs font-medium rounded-md hover:text-gray-900 dark:hover:text-white ${
-                  typeFilter === key
+                  granularityMode === key
                     ? "bg-white text-gray-900 shadow-theme-xs dark:bg-gray-800 dark:text-white"
                     : "text-gray-500 dark:text-gray-400"
                 }`}
@@ -207,7 +397,29 @@ export default function TransactionsVolumeChart() {
             ))}
           </div>
         </div>
+
+        <Switch
+          label="Show transaction count"
+          checked={showCount}
+          onChange={setShowCount}
+        />
+
+        <div
+          title={
+            canCompare ? undefined : "Pick a bounded range to compare periods"
+          }
+        >
+          <Switch
+            label="Compare to previous period"
+            checked={compare}
+            disabled={!canCompare}
+            onChange={setCompare}
+          />
+        </div>
       </div>
+      {truncatedNotice}
+      {drillDownNotice}
+      {summary}
       {body}
     </div>
   );
@@ -0,0 +1,93 @@
+import { ArrowDownIcon, ArrowUpIcon } from "../../../icons";
+import Badge from "../../ui/badge/Badge";
+import type { VolumeSummary } from "../../../hooks/useReporting";
+import { formatAmount } from "../../../lib/formatters";
+
+interface VolumeSummaryCardsProps {
+  current: VolumeSummary;
+  // Summary of the previous period, or null when not comparing.
+  previous: VolumeSummary | null;
+}
+
+// Relative change against the previous period, or null when there is
+// nothing to compare against.
+function getPercentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+}
+
+function ChangeBadge({ change }: { change: number | null }) {
+  if (change === null) return null;
+
+  const up = change >= 0;
+  return (
+    <Badge color={up ? "success" : "error"}>
+      {up ? <ArrowUpIcon /> : <ArrowDownIcon />}
+      {Math.abs(change).toFixed(2)}%
+    </Badge>
+  );
+}
+
+export default function VolumeSummaryCards({
+  current,
+  previous,
+}: VolumeSummaryCardsProps) {
+  const metrics: {
+    key: keyof VolumeSummary;
+    label: string;
+    format: (value: number) => string;
+  }[] = [
+    {
+      key: "totalAmount",
+      label: "Total volume",
+      format: (value) => `Rp${formatAmount(value)}`,
+    },
+    {
+      key: "netAmount",
+      label: "Net flow",
+      format: (value) => `Rp${formatAmount(value)}`,
+    },
+    {
+      key: "count",
+      label: "Transactions",
+      format: (value) => value.toLocaleString("en-US"),
+    },
+    {
+      key: "averageTicket",
+      label: "Average ticket",
+      format: (value) => `Rp${formatAmount(value)}`,
+    },
+  ];
+
+  return (
+    <div className="grid grid-cols-1 gap-4 mb-4 sm:grid-cols-2 xl:grid-cols-4">
+      {metrics.map(({ key, label, format }) => (
+        <div
+          key={key}
+          className="rounded-2xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-white/[0.03]"
+        >
+          <div className="flex items-end justify-between">
+            <div>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                {label}
+              </span>
+              <h4 className="mt-2 font-bold text-gray-800 text-title-sm dark:text-white/90">
+                {format(current[key])}
+              </h4>
+              {previous && (
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  Previous: {format(previous[key])}
+                </span>
+              )}
+            </div>
+            {previous && (
+              <ChangeBadge
+                change={getPercentChange(current[key], previous[key])}
+              />
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { CopyIcon } from "../../icons";
+import { useToast } from "./ToastProvider";
+
+interface CopyButtonProps {
+  value: string;
+  label?: string;
+}
+
+export default function CopyButton({ value, label = "Copy" }: CopyButtonProps) {
+  const { showToast } = useToast();
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(value);
+      showToast("Copied to clipboard.", "success");
+    } catch {
+      showToast("Could not copy to the clipboard.", "error");
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      aria-label={label}
+      title={label}
+      className="inline-flex items-center justify-center rounded-md p-1 text-gray-500 hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300"
+    >
+      <CopyIcon className="size-4" />
+    </button>
+  );
+}
@@ -1,13 +1,23 @@
-import { createContext, useCallback, useContext, useState, type ReactNode } from "react";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useState,
+  type ReactNode,
+} from "react";
 
 interface GlobalLoadingContextValue {
   startLoading: () => void;
   stopLoading: () => void;
   isLoading: boolean;
+  startRetrying: () => void;
+  stopRetrying: () => void;
+  isRetrying: boolean;
 }
 
-const GlobalLoadingContext =
-  createContext<GlobalLoadingContextValue | undefined>(undefined);
+const GlobalLoadingContext = createContext<
+  GlobalLoadingContextValue | undefined
+>(undefined);
 
 export function GlobalLoadingProvider({ children }: { children: ReactNode }) {
   const [count, setCount] = useState(0);
@@ -20,17 +30,37 @@ export function GlobalLoadingProvider({ children }: { children: ReactNode }) {
     setCount((prev) => (prev > 0 ? prev - 1 : 0));
   }, []);
 
-  const isLoading = count > 0;
+  const [retryCount, setRetryCount] = useState(0);
+
+  const startRetrying = useCallback(() => {
+    setRetryCount((prev) => prev + 1);
+  }, []);
+
+  const stopRetrying = useCallback(() => {
+    setRetryCount((prev) => (prev > 0 ? prev - 1 : 0));
+  }, []);
+
+  const isRetrying = retryCount > 0;
+  const isLoading = count > 0 || isRetrying;
 
   return (
-    <GlobalLoadingContext.Provider value={{ startLoading, stopLoading, isLoading }}>
+    <GlobalLoadingContext.Provider
+      value={{
+        startLoading,
+        stopLoading,
+        isLoading,
+        startRetrying,
+        stopRetrying,
+        isRetrying,
+      }}
+    >
       {children}
-      {/* Simple top loading bar */}
+      {/* Simple top loading bar; amber and pulsing while requests are retried */}
       <div className="pointer-events-none fixed inset-x-0 top-0 z-[9998] h-0.5">
         <div
-          className={`h-full w-full origin-left bg-brand-500 transition-transform duration-300 ${
-            isLoading ? "scale-x-100" : "scale-x-0"
-          }`}
+          className={`h-full w-full origin-left transition-transform duration-300 ${
+            isRetrying ? "bg-warning-500 animate-pulse" : "bg-brand-500"
+          } ${isLoading ? "scale-x-100" : "scale-x-0"}`}
         />
       </div>
     </GlobalLoadingContext.Provider>
@@ -40,7 +70,9 @@ export function GlobalLoadingProvider({ children }: { children: ReactNode }) {
 export function useGlobalLoading(): GlobalLoadingContextValue {
   const ctx = useContext(GlobalLoadingContext);
   if (!ctx) {
-    throw new Error("useGlobalLoading must be used within a GlobalLoadingProvider");
+    throw new Error(
+      "useGlobalLoading must be used within a GlobalLoadingProvider",
+    );
   }
   return ctx;
 }
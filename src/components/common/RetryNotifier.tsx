@@ -0,0 +1,46 @@
+import { useEffect, useRef } from "react";
+import { registerRetryHandler } from "../../lib/httpClient";
+import { useGlobalLoading } from "./GlobalLoadingProvider";
+import { useToast } from "./ToastProvider";
+
+export default function RetryNotifier() {
+  const { startRetrying, stopRetrying } = useGlobalLoading();
+  const { showToast } = useToast();
+  // Requests currently between their first failure and final outcome.
+  const retryingRequestsRef = useRef(0);
+
+  useEffect(() => {
+    registerRetryHandler((event) => {
+      if (event.phase === "settled") {
+        retryingRequestsRef.current = Math.max(
+          0,
+          retryingRequestsRef.current - 1,
+        );
+        stopRetrying();
+        return;
+      }
+
+      // Only the first retry of a request marks it as retrying.
+      if (event.attempt !== 2) return;
+
+      retryingRequestsRef.current += 1;
+      startRetrying();
+
+      // One toast per burst, not one per request.
+      if (retryingRequestsRef.current === 1) {
+        const seconds = Math.max(1, Math.round(event.delayMs / 1000));
+        const reason =
+          event.status === 429
+            ? "The server is rate limiting requests"
+            : "The server did not respond";
+        showToast(`${reason}. Retrying in ${seconds}s...`, "info");
+      }
+    });
+
+    return () => {
+      registerRetryHandler(null);
+    };
+  }, [startRetrying, stopRetrying, showToast]);
+
+  return null;
+}
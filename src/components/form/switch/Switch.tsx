@@ -3,6 +3,7 @@ import { useState } from "react";
 interface SwitchProps {
   label: string;
   defaultChecked?: boolean;
+  checked?: boolean; // Controlled state; takes precedence over defaultChecked
   disabled?: boolean;
   onChange?: (checked: boolean) => void;
   color?: "blue" | "gray"; // Added prop to toggle color theme
@@ -11,11 +12,13 @@ interface SwitchProps {
 const Switch: React.FC<SwitchProps> = ({
   label,
   defaultChecked = false,
+  checked,
   disabled = false,
   onChange,
   color = "blue", // Default to blue color
 }) => {
-  const [isChecked, setIsChecked] = useState(defaultChecked);
+  const [uncontrolledChecked, setIsChecked] = useState(defaultChecked);
+  const isChecked = checked ?? uncontrolledChecked;
 
   const handleToggle = () => {
     if (disabled) return;
@@ -0,0 +1,31 @@
+import { Link } from "react-router";
+import { useBalance } from "../../hooks/useBalance";
+import { formatAmount } from "../../lib/formatters";
+
+export default function BalanceIndicator() {
+  const { hasToken, balance, loading, error, stale } = useBalance();
+
+  if (!hasToken) {
+    return null;
+  }
+
+  const label =
+    balance !== null ? `Rp${formatAmount(balance)}` : loading ? "..." : "-";
+
+  return (
+    <Link
+      to="/"
+      title={stale ? `Balance may be outdated: ${error}` : "Wallet balance"}
+      className="flex items-center gap-2 px-3 text-sm font-medium text-gray-700 border border-gray-200 rounded-full h-11 hover:bg-gray-100 dark:border-gray-800 dark:text-gray-400 dark:hover:bg-gray-800"
+    >
+      <span className="text-gray-500 dark:text-gray-400">Balance</span>
+      <span className="text-gray-800 dark:text-white/90">{label}</span>
+      {stale && (
+        <span
+          className="w-2 h-2 rounded-full bg-warning-500"
+          aria-label="Balance may be outdated"
+        />
+      )}
+    </Link>
+  );
+}
@@ -0,0 +1,107 @@
+import { useMemo } from "react";
+import Label from "../form/Label";
+import Select from "../form/Select";
+import { useToast } from "../common/ToastProvider";
+import { useBusinessTimeZone } from "../../context/BusinessTimeZoneContext";
+import {
+  DEFAULT_BUSINESS_TIME_ZONE,
+  getBrowserTimeZone,
+} from "../../lib/businessTimeZone";
+import { formatDateTime } from "../../lib/formatters";
+
+// Used when the browser cannot list its supported time zones.
+const COMMON_TIME_ZONES = [
+  "Asia/Jakarta",
+  "Asia/Makassar",
+  "Asia/Jayapura",
+  "Asia/Singapore",
+  "Asia/Kuala_Lumpur",
+  "Asia/Bangkok",
+  "Asia/Hong_Kong",
+  "Asia/Tokyo",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Australia/Sydney",
+  "Europe/London",
+  "Europe/Amsterdam",
+  "Europe/Berlin",
+  "America/New_York",
+  "America/Chicago",
+  "America/Los_Angeles",
+  "UTC",
+];
+
+function getTimeZoneOptions(...required: string[]): string[] {
+  const intl = Intl as typeof Intl & {
+    supportedValuesOf?: (key: "timeZone") => string[];
+  };
+  const zones =
+    typeof intl.supportedValuesOf === "function"
+      ? intl.supportedValuesOf("timeZone")
+      : COMMON_TIME_ZONES;
+
+  return Array.from(new Set([...required, ...zones])).sort();
+}
+
+export default function TimeZoneSettings() {
+  const { timeZone, setTimeZone } = useBusinessTimeZone();
+  const { showToast } = useToast();
+  const browserTimeZone = getBrowserTimeZone();
+
+  const options = useMemo(
+    () =>
+      getTimeZoneOptions(
+        timeZone,
+        browserTimeZone,
+        DEFAULT_BUSINESS_TIME_ZONE,
+      ).map((zone) => ({ value: zone, label: zone.replace(/_/g, " ") })),
+    [timeZone, browserTimeZone],
+  );
+
+  const handleChange = (nextTimeZone: string) => {
+    if (!nextTimeZone || nextTimeZone === timeZone) return;
+
+    setTimeZone(nextTimeZone);
+    showToast(`Business timezone set to ${nextTimeZone}.`, "success");
+  };
+
+  return (
+    <div className="max-w-md space-y-4">
+      <div>
+        <Label htmlFor="business-timezone">Business timezone</Label>
+        {/* Keyed so the uncontrolled select follows external changes */}
+        <Select
+          key={timeZone}
+          options={options}
+          defaultValue={timeZone}
+          onChange={handleChange}
+        />
+        <p className="mt-1.5 text-xs text-gray-500 dark:text-gray-400">
+          Used for date ranges, chart buckets and every timestamp shown in the
+          dashboard. Current time there: {formatDateTime(new Date())}.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        {browserTimeZone !== timeZone && (
+          <button
+            type="button"
+            onClick={() => handleChange(browserTimeZone)}
+            className="text-xs font-medium text-brand-500 hover:text-brand-600 dark:text-brand-400"
+          >
+            Use this browser&apos;s timezone ({browserTimeZone})
+          </button>
+        )}
+        {timeZone !== DEFAULT_BUSINESS_TIME_ZONE && (
+          <button
+            type="button"
+            onClick={() => handleChange(DEFAULT_BUSINESS_TIME_ZONE)}
+            className="text-xs font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+          >
+            Reset to {DEFAULT_BUSINESS_TIME_ZONE}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
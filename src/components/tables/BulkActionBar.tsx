@@ -0,0 +1,109 @@
+import { useState, type ReactNode } from "react";
+import Button from "../ui/button/Button";
+import { isAbortError, mapApiErrorToMessage } from "../../lib/httpClient";
+import { ExportTooLargeError, type ExportFormat } from "../../lib/tableExport";
+import { useToast } from "../common/ToastProvider";
+
+export type BulkActionContext<TData> = {
+  count: number;
+  allMatching: boolean;
+  // The selected rows; fetches every matching page when all matching rows
+  // are selected.
+  getRows: () => Promise<TData[]>;
+  // Downloads rows with the table's export columns.
+  exportRows: (rows: TData[], format: ExportFormat) => void;
+  clearSelection: () => void;
+};
+
+// An action feature tables register on a ServerDataTable. Errors thrown by
+// `run` are shown as a toast.
+export interface BulkAction<TData> {
+  id: string;
+  label: string;
+  icon?: ReactNode;
+  run: (context: BulkActionContext<TData>) => Promise<void> | void;
+}
+
+interface BulkActionBarProps<TData> {
+  actions: BulkAction<TData>[];
+  context: BulkActionContext<TData>;
+  // Rows matching the table's filters and search.
+  total: number;
+  // Offered when the whole page is selected but more rows match.
+  canSelectAllMatching: boolean;
+  onSelectAllMatching: () => void;
+}
+
+export default function BulkActionBar<TData>({
+  actions,
+  context,
+  total,
+  canSelectAllMatching,
+  onSelectAllMatching,
+}: BulkActionBarProps<TData>) {
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const { showToast } = useToast();
+
+  const handleRun = async (action: BulkAction<TData>) => {
+    setRunningId(action.id);
+    try {
+      await action.run(context);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        showToast(
+          err instanceof ExportTooLargeError
+            ? err.message
+            : mapApiErrorToMessage(err, {
+                defaultMessage: `Failed to run "${action.label}".`,
+              }),
+          "error",
+        );
+      }
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 px-4 py-3 border-b border-gray-100 bg-brand-25 sm:flex-row sm:items-center sm:justify-between dark:border-white/[0.05] dark:bg-brand-500/[0.06]">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-gray-700 dark:text-gray-300">
+        <span className="font-medium">
+          {context.allMatching
+            ? `All ${context.count.toLocaleString("en-US")} matching rows selected`
+            : `${context.count.toLocaleString("en-US")} selected`}
+        </span>
+        {canSelectAllMatching && (
+          <button
+            type="button"
+            onClick={onSelectAllMatching}
+            className="text-xs font-medium text-brand-500 hover:text-brand-600 dark:text-brand-400"
+          >
+            Select all {total.toLocaleString("en-US")} matching
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={context.clearSelection}
+          className="text-xs font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+        >
+          Clear selection
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {actions.map((action) => (
+          <Button
+            key={action.id}
+            size="sm"
+            variant="outline"
+            startIcon={action.icon}
+            disabled={runningId !== null}
+            onClick={() => handleRun(action)}
+          >
+            {runningId === action.id ? "Working..." : action.label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState, type ReactNode } from "react";
+import { useDrag, useDrop } from "react-dnd";
+import { Dropdown } from "../ui/dropdown/Dropdown";
+import Checkbox from "../form/input/Checkbox";
+import type { UseTableColumnPrefsResult } from "../../hooks/useTableColumnPrefs";
+import type { FilterPlacement } from "../../lib/tableColumnPrefs";
+
+const COLUMN_DRAG_TYPE = "table-column";
+
+const FILTER_PLACEMENTS: { value: FilterPlacement; label: string }[] = [
+  { value: "header", label: "Header" },
+  { value: "footer", label: "Footer" },
+  { value: "none", label: "None" },
+];
+
+type ColumnDragItem = { id: string };
+
+interface ColumnChooserItemProps {
+  id: string;
+  label: ReactNode;
+  visible: boolean;
+  canHide: boolean;
+  onVisibleChange: (visible: boolean) => void;
+  onMove: (dragId: string, hoverId: string) => void;
+  onDragEnd: () => void;
+}
+
+function ColumnChooserItem({
+  id,
+  label,
+  visible,
+  canHide,
+  onVisibleChange,
+  onMove,
+  onDragEnd,
+}: ColumnChooserItemProps) {
+  const [{ isDragging }, drag] = useDrag({
+    type: COLUMN_DRAG_TYPE,
+    item: { id },
+    collect: (monitor) => ({ isDragging: monitor.isDragging() }),
+    end: onDragEnd,
+  });
+  const [, drop] = useDrop<ColumnDragItem>({
+    accept: COLUMN_DRAG_TYPE,
+    hover: (item) => {
+      if (item.id !== id) onMove(item.id, id);
+    },
+  });
+
+  return (
+    <li
+      ref={(node) => {
+        drag(drop(node));
+      }}
+      className={`flex items-center gap-2 rounded-md px-2 py-1.5 cursor-move hover:bg-gray-100 dark:hover:bg-white/5 ${
+        isDragging ? "opacity-40" : ""
+      }`}
+    >
+      <span
+        aria-hidden="true"
+        className="text-xs leading-none tracking-tighter text-gray-400"
+      >
+        ⋮⋮
+      </span>
+      <Checkbox
+        checked={visible}
+        disabled={visible && !canHide}
+        onChange={onVisibleChange}
+      />
+      <span className="flex-1 text-sm text-gray-700 truncate dark:text-gray-300">
+        {label}
+      </span>
+    </li>
+  );
+}
+
+interface ColumnChooserProps {
+  // All columns, in their current order.
+  columns: { id: string; label: ReactNode }[];
+  prefs: UseTableColumnPrefsResult;
+}
+
+export default function ColumnChooser({ columns, prefs }: ColumnChooserProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  // Order while a drag is in progress; saved when it ends.
+  const [draftOrder, setDraftOrder] = useState<string[] | null>(null);
+
+  const order = draftOrder ?? columns.map((column) => column.id);
+  const labels = new Map(columns.map((column) => [column.id, column.label]));
+  const visibleCount = columns.filter(
+    (column) => !prefs.hidden.includes(column.id),
+  ).length;
+
+  const handleMove = (dragId: string, hoverId: string) => {
+    const next = order.filter((id) => id !== dragId);
+    next.splice(next.indexOf(hoverId), 0, dragId);
+    setDraftOrder(next);
+  };
+
+  const handleDragEnd = () => {
+    if (draftOrder) {
+      prefs.setColumnOrder(draftOrder);
+      setDraftOrder(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="inline-flex items-center gap-2 px-4 py-3 text-sm text-gray-700 bg-white rounded-lg dropdown-toggle ring-1 ring-inset ring-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.03] dark:hover:text-gray-300"
+      >
+        Columns
+      </button>
+
+      <Dropdown
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        className="w-64 p-3"
+      >
+        <p className="px-1 mb-2 text-xs font-medium text-gray-500 uppercase dark:text-gray-400">
+          Columns
+        </p>
+        <ul className="mb-3 space-y-0.5">
+          {order.map((id) => {
+            const visible = !prefs.hidden.includes(id);
+            return (
+              <ColumnChooserItem
+                key={id}
+                id={id}
+                label={labels.get(id)}
+                visible={visible}
+                canHide={visibleCount > 1}
+                onVisibleChange={(next) => prefs.setColumnVisible(id, next)}
+                onMove={handleMove}
+                onDragEnd={handleDragEnd}
+              />
+            );
+          })}
+        </ul>
+
+        <p className="px-1 mb-2 text-xs font-medium text-gray-500 uppercase dark:text-gray-400">
+          Filters
+        </p>
+        <div className="inline-flex p-0.5 mb-3 rounded-lg bg-gray-100 dark:bg-gray-900">
+          {FILTER_PLACEMENTS.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => prefs.setFilterPlacement(value)}
+              className={`px-3 py-1.5 text-xs font-medium rounded-md ${
+                prefs.filterPlacement === value
+                  ? "bg-white text-gray-900 shadow-theme-xs dark:bg-gray-800 dark:text-white"
+                  : "text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="pt-2 border-t border-gray-100 dark:border-gray-800">
+          <button
+            type="button"
+            onClick={prefs.resetColumns}
+            className="text-xs font-medium text-brand-500 hover:text-brand-600 dark:text-brand-400"
+          >
+            Reset columns
+          </button>
+        </div>
+      </Dropdown>
+    </div>
+  );
+}
@@ -1,4 +1,11 @@
-import { ReactNode, useEffect, useMemo, useRef, useState } from "react";
+import {
+  MouseEvent as ReactMouseEvent,
+  ReactNode,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import {
   Table,
   TableBody,
@@ -7,7 +14,29 @@ import {
   TableHeader,
   TableRow,
 } from "../ui/table";
-import { apiRequest, ApiError } from "../../lib/httpClient";
+import { apiRequest, ApiError, isAbortError } from "../../lib/httpClient";
+import {
+  buildDataTablesQueryParams,
+  dataTablesResponseDecoder,
+  type DataTablesApiResponse,
+  type DataTablesQueryOptions,
+} from "../../lib/dataTables";
+import type { Decoder } from "../../lib/decoders";
+import { fetchQuery } from "../../lib/queryCache";
+import { useQueryState } from "../../hooks/useCachedQuery";
+import type { UseTableColumnPrefsResult } from "../../hooks/useTableColumnPrefs";
+import {
+  MIN_COLUMN_WIDTH,
+  orderColumns,
+  type FilterPlacement,
+} from "../../lib/tableColumnPrefs";
+import ColumnChooser from "./ColumnChooser";
+
+export { buildDataTablesQueryParams };
+export type { DataTablesApiResponse, DataTablesQueryOptions };
+
+// Prefix shared by every server-side table query in the query cache.
+const DATA_TABLE_QUERY_KEY = "dataTable";
 
 type PageItem =
   | { type: "page"; page: number }
@@ -87,13 +116,20 @@ export interface DataTableColumn<TData = unknown> {
   align?: DataTableColumnAlign;
   sortable?: boolean;
   sortDirection?: "asc" | "desc" | null;
-  onSort?: () => void;
+  // 1-based position among several sort keys.
+  sortPriority?: number | null;
+  // `additive` is set on shift-click, to add a secondary sort key.
+  onSort?: (additive: boolean) => void;
   headerFilter?: ReactNode;
   footerLabel?: ReactNode;
   footerFilter?: ReactNode;
   filterConfigHeader?: DataTableFilterConfig;
   filterConfigFooter?: DataTableFilterConfig;
   renderCell: (row: TData) => ReactNode;
+  // Used by exports; default to a string `header` and to `renderCell` when
+  // it returns plain text or a number.
+  exportHeader?: string;
+  exportValue?: (row: TData) => string | number | null;
 }
 
 export interface DataTableShellProps<TData = unknown> {
@@ -122,6 +158,24 @@ export interface DataTableShellProps<TData = unknown> {
   totalPages: number;
   onPageChange: (page: number) => void;
   showRowNumber?: boolean;
+  // Extra controls shown next to the search box, e.g. export.
+  toolbarActions?: ReactNode;
+  // Enables the column chooser: order, visibility, widths and where filters
+  // are shown. Without it every column and filter row is rendered as defined.
+  columnPrefs?: UseTableColumnPrefsResult;
+  // Adds a checkbox column for selecting rows.
+  selection?: DataTableSelection<TData>;
+  onRowClick?: (row: TData, index: number) => void;
+}
+
+export interface DataTableSelection<TData> {
+  isRowSelected: (row: TData, index: number) => boolean;
+  onRowSelectedChange: (row: TData, index: number, selected: boolean) => void;
+  // State of the header checkbox for the rows on the current page.
+  pageState: "none" | "some" | "all";
+  onPageSelectedChange: (selected: boolean) => void;
+  // Shown above the rows, e.g. a bulk action bar.
+  actionBar?: ReactNode;
 }
 
 export interface DebouncedSearchOptions {
@@ -144,6 +198,9 @@ export function useDebouncedSearch({
     const value = pendingSearch;
     const trimmed = value.trim();
 
+    // Nothing new to commit, e.g. a search restored from the URL.
+    if (trimmed === search) return;
+
     if (trimmed.length >= minLength || trimmed.length === 0) {
       setSearch(trimmed);
       onCommit?.(trimmed);
@@ -158,7 +215,7 @@ export function useDebouncedSearch({
     return () => {
       window.clearTimeout(timeoutId);
     };
-  }, [pendingSearch, minLength, delayMs]);
+  }, [pendingSearch, search, minLength, delayMs]);
 
   const reset = () => {
     setSearch("");
@@ -218,67 +275,20 @@ export function getDataTablePaging({
   };
 }
 
-export interface DataTablesQueryOptions {
-  start: number;
-  length: number;
-  search?: string;
-  sortColumn?: number | null;
-  sortDir?: "asc" | "desc" | null;
-  extraFilters?: Record<string, string | number | null | undefined>;
-}
-
-export function buildDataTablesQueryParams({
-  start,
-  length,
-  search,
-  sortColumn,
-  sortDir,
-  extraFilters,
-}: DataTablesQueryOptions): URLSearchParams {
-  const params = new URLSearchParams();
-
-  params.set("draw", "1");
-  params.set("start", String(start));
-  params.set("length", String(length));
-
-  const trimmedSearch = search?.trim();
-  if (trimmedSearch) {
-    params.set("search[value]", trimmedSearch);
-  }
-
-  if (extraFilters) {
-    for (const [key, value] of Object.entries(extraFilters)) {
-      if (value === null || value === undefined) continue;
-      const str = String(value).trim();
-      if (!str) continue;
-      params.set(key, str);
-    }
-  }
-
-  if (typeof sortColumn === "number" && sortDir) {
-    params.set("order[0][column]", String(sortColumn));
-    params.set("order[0][dir]", sortDir);
-  }
-
-  return params;
-}
-
-export interface DataTablesApiResponse<TData> {
-  data?: TData[];
-  recordsTotal?: number;
-  recordsFiltered?: number;
-}
-
-export interface UseServerDataTableOptions {
+export interface UseServerDataTableOptions<TData = unknown> {
   endpoint: string;
   token?: string | null;
   pageSizeInitial?: number;
+  pageIndexInitial?: number;
   buildQueryOptions: (ctx: {
     pageIndex: number;
     pageSize: number;
   }) => DataTablesQueryOptions;
   deps?: readonly unknown[];
   mapErrorMessage?: (err: unknown) => string | null;
+  // When set, the response is validated strictly instead of defaulting
+  // missing fields.
+  decodeRow?: Decoder<TData>;
 }
 
 export interface UseServerDataTableResult<TData> {
@@ -294,68 +304,71 @@ export interface UseServerDataTableResult<TData> {
 }
 
 export function useServerDataTable<TData>(
-  options: UseServerDataTableOptions,
+  options: UseServerDataTableOptions<TData>,
 ): UseServerDataTableResult<TData> {
   const {
     endpoint,
     token,
     pageSizeInitial = 10,
+    pageIndexInitial = 0,
     buildQueryOptions,
     deps = [],
     mapErrorMessage,
+    decodeRow,
   } = options;
 
   const [pageSize, setPageSize] = useState(pageSizeInitial);
-  const [pageIndex, setPageIndex] = useState(0);
-  const [data, setData] = useState<TData[]>([]);
-  const [recordsTotal, setRecordsTotal] = useState(0);
-  const [recordsFiltered, setRecordsFiltered] = useState(0);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [pageIndex, setPageIndex] = useState(pageIndexInitial);
 
-  useEffect(() => {
-    if (!endpoint) return;
+  const params = buildDataTablesQueryParams(
+    buildQueryOptions({ pageIndex, pageSize }),
+  );
+  const path = endpoint ? `${endpoint}?${params.toString()}` : null;
+  const queryKey = path ? [DATA_TABLE_QUERY_KEY, path] : null;
 
-    const controller = new AbortController();
+  const query = useQueryState<DataTablesApiResponse<TData>>(queryKey);
 
-    const fetchData = async () => {
-      setLoading(true);
-      setError(null);
+  useEffect(() => {
+    if (!path) return;
 
-      const queryOptions = buildQueryOptions({ pageIndex, pageSize });
-      const params = buildDataTablesQueryParams(queryOptions);
+    const controller = new AbortController();
 
-      try {
-        const response = await apiRequest<DataTablesApiResponse<TData>>({
-          path: `${endpoint}?${params.toString()}`,
+    fetchQuery<DataTablesApiResponse<TData>>(
+      [DATA_TABLE_QUERY_KEY, path],
+      (signal) =>
+        apiRequest<DataTablesApiResponse<TData>>({
+          path,
           method: "GET",
           token: token ?? undefined,
           headers: {
             Accept: "application/json",
           },
-        });
-
-        setData(response.data ?? []);
-        setRecordsTotal(response.recordsTotal ?? 0);
-        setRecordsFiltered(response.recordsFiltered ?? 0);
-      } catch (err) {
-        const message = mapErrorMessage
-          ? mapErrorMessage(err)
-          : err instanceof ApiError
-          ? "Failed to load data from server."
-          : "An unexpected error occurred while loading data.";
-        setError(message);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    void fetchData();
+          decoder: decodeRow ? dataTablesResponseDecoder(decodeRow) : undefined,
+          signal,
+        }),
+      { signal: controller.signal },
+    ).catch(() => {
+      // Errors are exposed through the cached state.
+    });
 
     return () => {
       controller.abort();
     };
-  }, [endpoint, token, pageIndex, pageSize, buildQueryOptions, mapErrorMessage, ...deps]);
+  }, [path, token, decodeRow, ...deps]);
+
+  const data = query.data?.data ?? [];
+  const recordsTotal = query.data?.recordsTotal ?? 0;
+  const recordsFiltered = query.data?.recordsFiltered ?? 0;
+  const loading = query.isFetching;
+
+  let error: string | null = null;
+  if (query.error && !isAbortError(query.error)) {
+    error = mapErrorMessage
+      ? mapErrorMessage(query.error)
+      : query.error instanceof ApiError
+        ? "Failed to load data from server."
+        : "An unexpected error occurred while loading data.";
+  }
 
   return {
     data,
@@ -454,6 +467,66 @@ export function renderColumnFilter(
   return null;
 }
 
+function SelectionCheckbox({
+  checked,
+  indeterminate = false,
+  label,
+  onChange,
+}: {
+  checked: boolean;
+  indeterminate?: boolean;
+  label: string;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <input
+      type="checkbox"
+      aria-label={label}
+      checked={checked}
+      ref={(node) => {
+        if (node) node.indeterminate = indeterminate;
+      }}
+      onChange={(event) => onChange(event.target.checked)}
+      // Ticking a row must not also open it.
+      onClick={(event) => event.stopPropagation()}
+      className="w-4 h-4 align-middle rounded cursor-pointer accent-brand-500"
+    />
+  );
+}
+
+// Once a placement is chosen, a column's filter is shown in that row even if
+// it was only defined for the other one.
+function getColumnFilterNode<TData>(
+  column: DataTableColumn<TData>,
+  row: "header" | "footer",
+  placement: FilterPlacement | undefined,
+  loading: boolean,
+): ReactNode {
+  const headerNode = () =>
+    column.headerFilter ??
+    renderColumnFilter(column.filterConfigHeader, loading);
+  const footerNode = () =>
+    column.footerFilter ??
+    renderColumnFilter(column.filterConfigFooter, loading);
+
+  if (row === "header") {
+    return headerNode() ?? (placement ? footerNode() : null);
+  }
+  return footerNode() ?? (placement ? headerNode() : null);
+}
+
+function hasColumnFilter<TData>(
+  column: DataTableColumn<TData>,
+  row: "header" | "footer",
+  placement: FilterPlacement | undefined,
+): boolean {
+  const hasHeader = Boolean(column.headerFilter || column.filterConfigHeader);
+  const hasFooter = Boolean(column.footerFilter || column.filterConfigFooter);
+
+  if (placement) return hasHeader || hasFooter;
+  return row === "header" ? hasHeader : hasFooter;
+}
+
 export default function DataTableShell<TData = unknown>({
   columns,
   data,
@@ -475,8 +548,69 @@ export default function DataTableShell<TData = unknown>({
   totalPages,
   onPageChange,
   showRowNumber = false,
+  toolbarActions,
+  columnPrefs,
+  selection,
+  onRowClick,
 }: DataTableShellProps<TData>) {
   const searchInputRef = useRef<HTMLInputElement | null>(null);
+  // Width of the column being resized; saved when the drag ends.
+  const [resizing, setResizing] = useState<{
+    id: string;
+    width: number;
+  } | null>(null);
+
+  const orderedColumns =
+    columns && columnPrefs ? orderColumns(columns, columnPrefs.order) : columns;
+  const visibleColumns =
+    orderedColumns && columnPrefs
+      ? orderedColumns.filter(
+          (column) => !columnPrefs.hidden.includes(column.id),
+        )
+      : orderedColumns;
+
+  // Checkbox and row number cells before the data columns.
+  const leadingColumnCount = (selection ? 1 : 0) + (showRowNumber ? 1 : 0);
+
+  const filterPlacement = columnPrefs?.filterPlacement;
+  const showHeaderFilters =
+    filterPlacement !== "footer" && filterPlacement !== "none";
+  const showFooterFilters =
+    filterPlacement !== "header" && filterPlacement !== "none";
+
+  const getColumnWidth = (id: string) =>
+    resizing?.id === id ? resizing.width : columnPrefs?.widths[id];
+
+  const handleResizeStart = (
+    event: ReactMouseEvent<HTMLSpanElement>,
+    id: string,
+  ) => {
+    if (!columnPrefs) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    const startX = event.clientX;
+    const cell = event.currentTarget.closest("th");
+    const startWidth = cell?.getBoundingClientRect().width ?? MIN_COLUMN_WIDTH;
+    let width = startWidth;
+
+    const handleMove = (moveEvent: MouseEvent) => {
+      width = Math.max(
+        MIN_COLUMN_WIDTH,
+        startWidth + moveEvent.clientX - startX,
+      );
+      setResizing({ id, width });
+    };
+    const handleUp = () => {
+      window.removeEventListener("mousemove", handleMove);
+      window.removeEventListener("mouseup", handleUp);
+      setResizing(null);
+      columnPrefs.setColumnWidth(id, width);
+    };
+
+    window.addEventListener("mousemove", handleMove);
+    window.addEventListener("mouseup", handleUp);
+  };
   const pageSizes =
     pageSizeOptions && pageSizeOptions.length > 0
       ? pageSizeOptions
@@ -521,7 +655,11 @@ export default function DataTableShell<TData = unknown>({
     } else {
       addPage(1);
       addEllipsis("start");
-      for (let page = safeCurrentPage - 1; page <= safeCurrentPage + 1; page++) {
+      for (
+        let page = safeCurrentPage - 1;
+        page <= safeCurrentPage + 1;
+        page++
+      ) {
         addPage(page);
       }
       addEllipsis("end");
@@ -602,7 +740,17 @@ export default function DataTableShell<TData = unknown>({
           <span>entries</span>
         </div>
 
-        <div className="flex items-center gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          {orderedColumns && columnPrefs && (
+            <ColumnChooser
+              columns={orderedColumns.map((column) => ({
+                id: column.id,
+                label: column.header,
+              }))}
+              prefs={columnPrefs}
+            />
+          )}
+          {toolbarActions}
           <div className="relative">
             <span className="absolute text-gray-500 -translate-y-1/2 pointer-events-none left-3 top-1/2 dark:text-gray-400">
               <svg
@@ -666,12 +814,40 @@ export default function DataTableShell<TData = unknown>({
         </div>
       </div>
 
+      {selection?.actionBar}
+
       <div className="max-w-full overflow-x-auto">
-        {columns && data ? (
+        {visibleColumns && data ? (
           <Table>
+            {columnPrefs && (
+              <colgroup>
+                {selection && <col />}
+                {showRowNumber && <col />}
+                {visibleColumns.map((column) => {
+                  const width = getColumnWidth(column.id);
+                  return (
+                    <col
+                      key={column.id}
+                      style={width ? { width: `${width}px` } : undefined}
+                    />
+                  );
+                })}
+              </colgroup>
+            )}
+
             {/* Main header row */}
             <TableHeader className="border-b border-gray-100 dark:border-white/[0.05]">
               <TableRow>
+                {selection && (
+                  <TableCell isHeader className="w-12 px-5 py-3">
+                    <SelectionCheckbox
+                      label="Select all rows on this page"
+                      checked={selection.pageState === "all"}
+                      indeterminate={selection.pageState === "some"}
+                      onChange={selection.onPageSelectedChange}
+                    />
+                  </TableCell>
+                )}
                 {showRowNumber && (
                   <TableCell
                     isHeader
@@ -680,13 +856,13 @@ export default function DataTableShell<TData = unknown>({
                     #
                   </TableCell>
                 )}
-                {columns.map((column) => {
+                {visibleColumns.map((column) => {
                   const alignClass =
                     column.align === "right"
                       ? "text-end"
                       : column.align === "center"
-                      ? "text-center"
-                      : "";
+                        ? "text-center"
+                        : "";
 
                   const isSortable = column.sortable && column.onSort;
 
@@ -694,62 +870,86 @@ export default function DataTableShell<TData = unknown>({
                     <TableCell
                       key={column.id}
                       isHeader
-                      className={`px-5 py-3 text-theme-xs ${alignClass}`}
+                      className={`px-5 py-3 text-theme-xs ${alignClass} ${
+                        columnPrefs ? "relative" : ""
+                      }`}
                     >
                       {isSortable ? (
                         <div
-                          className="flex items-center justify-between cursor-pointer"
-                          onClick={column.onSort}
+                          className="flex items-center justify-between cursor-pointer select-none"
+                          title="Shift-click to sort by more columns"
+                          onClick={(event) => column.onSort?.(event.shiftKey)}
                         >
                           <p className="font-medium text-gray-500 dark:text-gray-400">
                             {column.header}
                           </p>
-                          <button
-                            type="button"
-                            aria-label="Sort column"
-                            className="flex flex-col gap-0.5"
-                          >
-                            <svg
-                              className={`text-gray-300 dark:text-gray-700 ${
-                                column.sortDirection === "asc"
-                                  ? "text-brand-500"
-                                  : ""
-                              }`}
-                              width="8"
-                              height="5"
-                              viewBox="0 0 8 5"
-                              fill="none"
-                              xmlns="http://www.w3.org/2000/svg"
-                            >
-                              <path
-                                d="M4.40962 0.585167C4.21057 0.300808 3.78943 0.300807 3.59038 0.585166L1.05071 4.21327C0.81874 4.54466 1.05582 5 1.46033 5H6.53967C6.94418 5 7.18126 4.54466 6.94929 4.21327L4.40962 0.585167Z"
-                                fill="currentColor"
-                              />
-                            </svg>
-                            <svg
-                              className={`text-gray-300 dark:text-gray-700 ${
-                                column.sortDirection === "desc"
-                                  ? "text-brand-500"
-                                  : ""
-                              }`}
-                              width="8"
-                              height="5"
-                              viewBox="0 0 8 5"
-                              fill="none"
-                              xmlns="http://www.w3.org/2000/svg"
+                          <div className="flex items-center gap-1.5">
+                            {column.sortPriority && (
+                              <span className="flex h-4 min-w-4 items-center justify-center rounded-full bg-brand-50 px-1 text-[10px] font-medium text-brand-500 dark:bg-brand-500/15 dark:text-brand-400">
+                                {column.sortPriority}
+                              </span>
+                            )}
+                            <button
+                              type="button"
+                              aria-label="Sort column"
+                              className="flex flex-col gap-0.5"
                             >
-                              <path
-                                d="M4.40962 4.41483C4.21057 4.69919 3.78943 4.69919 3.59038 4.41483L1.05071 0.786732C0.81874 0.455343 1.05582 0 1.46033 0H6.53967C6.94418 0 7.18126 0.455342 6.94929 0.786731L4.40962 4.41483Z"
-                                fill="currentColor"
-                              />
-                            </svg>
-                          </button>
+                              <svg
+                                className={`text-gray-300 dark:text-gray-700 ${
+                                  column.sortDirection === "asc"
+                                    ? "text-brand-500"
+                                    : ""
+                                }`}
+                                width="8"
+                                height="5"
+                                viewBox="0 0 8 5"
+                                fill="none"
+                                xmlns="http://www.w3.org/2000/svg"
+                              >
+                                <path
+                                  d="M4.40962 0.585167C4.21057 0.300808 3.78943 0.300807 3.59038 0.585166L1.05071 4.21327C0.81874 4.54466 1.05582 5 1.46033 5H6.53967C6.94418 5 7.18126 4.54466 6.94929 4.21327L4.40962 0.585167Z"
+                                  fill="currentColor"
+                                />
+                              </svg>
+                              <svg
+                                className={`text-gray-300 dark:text-gray-700 ${
+                                  column.sortDirection === "desc"
+                                    ? "text-brand-500"
+                                    : ""
+                                }`}
+                                width="8"
+                                height="5"
+                                viewBox="0 0 8 5"
+                                fill="none"
+                                xmlns="http://www.w3.org/2000/svg"
+                              >
+                                <path
+                                  d="M4.40962 4.41483C4.21057 4.69919 3.78943 4.69919 3.59038 4.41483L1.05071 0.786732C0.81874 0.455343 1.05582 0 1.46033 0H6.53967C6.94418 0 7.18126 0.455342 6.94929 0.786731L4.40962 4.41483Z"
+                                  fill="currentColor"
+                                />
+                              </svg>
+                            </button>
+                          </div>
                         </div>
                       ) : (
                         <p className="font-medium text-gray-500 dark:text-gray-400">
                           {column.header}
                         </p>
                       )}
+                      {columnPrefs && (
+                        <span
+                          role="separator"
+                          aria-orientation="vertical"
+                          title="Drag to resize, double-click to reset"
+                          onMouseDown={(event) =>
+                            handleResizeStart(event, column.id)
+                          }
+                          onDoubleClick={() =>
+                            columnPrefs.setColumnWidth(column.id, null)
+                          }
+                          className="absolute inset-y-0 right-0 w-1.5 cursor-col-resize select-none hover:bg-brand-500/30"
+                        />
+                      )}
                     </TableCell>
                   );
                 })}
@@ -757,48 +957,65 @@ export default function DataTableShell<TData = unknown>({
             </TableHeader>
 
             {/* Optional header filter row */}
-            {columns.some((column) => column.headerFilter || column.filterConfigHeader) && (
-              <TableHeader>
-                <TableRow>
-                  {showRowNumber && (
-                    <TableCell className="px-5 py-2 text-theme-xs">{null}</TableCell>
-                  )}
-                  {columns.map((column) => {
-                    const alignClass =
-                      column.align === "right"
-                        ? "text-end"
-                        : column.align === "center"
-                        ? "text-center"
-                        : "";
-
-                    const headerFilterNode =
-                      column.headerFilter ??
-                      renderColumnFilter(column.filterConfigHeader, loading);
-
-                    return (
-                      <TableCell
-                        key={column.id}
-                        className={`px-5 py-2 text-theme-xs ${alignClass}`}
-                      >
-                        {headerFilterNode ?? null}
+            {showHeaderFilters &&
+              visibleColumns.some((column) =>
+                hasColumnFilter(column, "header", filterPlacement),
+              ) && (
+                <TableHeader>
+                  <TableRow>
+                    {selection && (
+                      <TableCell className="px-5 py-2 text-theme-xs">
+                        {null}
                       </TableCell>
-                    );
-                  })}
-                </TableRow>
-              </TableHeader>
-            )}
+                    )}
+                    {showRowNumber && (
+                      <TableCell className="px-5 py-2 text-theme-xs">
+                        {null}
+                      </TableCell>
+                    )}
+                    {visibleColumns.map((column) => {
+                      const alignClass =
+                        column.align === "right"
+                          ? "text-end"
+                          : column.align === "center"
+                            ? "text-center"
+                            : "";
+
+                      const headerFilterNode = getColumnFilterNode(
+                        column,
+                        "header",
+                        filterPlacement,
+                        loading,
+                      );
+
+                      return (
+                        <TableCell
+                          key={column.id}
+                          className={`px-5 py-2 text-theme-xs ${alignClass}`}
+                        >
+                          {headerFilterNode ?? null}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                </TableHeader>
+              )}
 
             <TableBody className="divide-y divide-gray-100 dark:divide-white/[0.05]">
-              {/* Loading skeleton rows */}
+              {/* Loading skeleton rows, unless cached rows can be shown */}
               {loading &&
+                data.length === 0 &&
                 Array.from({ length: pageSize }).map((_, rowIndex) => (
                   <TableRow key={`skeleton-${rowIndex}`}>
+                    {selection && (
+                      <TableCell className="px-5 py-4">{null}</TableCell>
+                    )}
                     {showRowNumber && (
                       <TableCell className="px-5 py-4">
                         <div className="h-4 bg-gray-200 rounded animate-pulse dark:bg-gray-700 w-full" />
                       </TableCell>
                     )}
-                    {columns.map((column) => (
+                    {visibleColumns.map((column) => (
                       <TableCell key={column.id} className="px-5 py-4">
                         <div className="h-4 bg-gray-200 rounded animate-pulse dark:bg-gray-700 w-full" />
                       </TableCell>
@@ -810,7 +1027,7 @@ export default function DataTableShell<TData = unknown>({
               {!loading && error && (
                 <TableRow>
                   <TableCell
-                    colSpan={columns.length + (showRowNumber ? 1 : 0)}
+                    colSpan={visibleColumns.length + leadingColumnCount}
                     className="px-5 py-6 text-center text-sm text-error-500"
                   >
                     {error}
@@ -822,7 +1039,7 @@ export default function DataTableShell<TData = unknown>({
               {!loading && !error && data.length === 0 && (
                 <TableRow>
                   <TableCell
-                    colSpan={columns.length + (showRowNumber ? 1 : 0)}
+                    colSpan={visibleColumns.length + leadingColumnCount}
                     className="px-5 py-6 text-center text-sm text-gray-500 dark:text-gray-400"
                   >
                     {emptyMessage}
@@ -831,80 +1048,125 @@ export default function DataTableShell<TData = unknown>({
               )}
 
               {/* Data rows */}
-              {!loading &&
+              {(!loading || data.length > 0) &&
                 !error &&
-                data.map((row, rowIndex) => (
-                  <TableRow
-                    key={
-                      getRowKey ? getRowKey(row, rowIndex) : (rowIndex as number)
-                    }
-                  >
+                data.map((row, rowIndex) => {
+                  const isSelected =
+                    selection?.isRowSelected(row, rowIndex) ?? false;
+
+                  return (
+                    <TableRow
+                      key={
+                        getRowKey
+                          ? getRowKey(row, rowIndex)
+                          : (rowIndex as number)
+                      }
+                      className={`${
+                        isSelected ? "bg-brand-25 dark:bg-brand-500/[0.06]" : ""
+                      } ${
+                        onRowClick
+                          ? "cursor-pointer hover:bg-gray-50 dark:hover:bg-white/[0.02]"
+                          : ""
+                      }`}
+                      onClick={
+                        onRowClick ? () => onRowClick(row, rowIndex) : undefined
+                      }
+                    >
+                      {selection && (
+                        <TableCell className="px-5 py-4">
+                          <SelectionCheckbox
+                            label="Select row"
+                            checked={isSelected}
+                            onChange={(checked) =>
+                              selection.onRowSelectedChange(
+                                row,
+                                rowIndex,
+                                checked,
+                              )
+                            }
+                          />
+                        </TableCell>
+                      )}
+                      {showRowNumber && (
+                        <TableCell className="px-5 py-4 text-sm text-gray-700 text-right dark:text-gray-200">
+                          {currentFrom && currentFrom > 0
+                            ? currentFrom + rowIndex
+                            : rowIndex + 1}
+                        </TableCell>
+                      )}
+                      {visibleColumns.map((column) => {
+                        const alignClass =
+                          column.align === "right"
+                            ? "text-end"
+                            : column.align === "center"
+                              ? "text-center"
+                              : "text-start";
+
+                        return (
+                          <TableCell
+                            key={column.id}
+                            className={`px-5 py-4 text-sm text-gray-700 dark:text-gray-200 ${alignClass}`}
+                          >
+                            {column.renderCell(row)}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  );
+                })}
+            </TableBody>
+
+            {/* Optional footer filter row */}
+            {showFooterFilters &&
+              visibleColumns.some((column) =>
+                hasColumnFilter(column, "footer", filterPlacement),
+              ) && (
+                <TableFooter>
+                  <TableRow>
+                    {selection && (
+                      <TableCell className="px-5 py-2 text-theme-xs">
+                        {null}
+                      </TableCell>
+                    )}
                     {showRowNumber && (
-                      <TableCell className="px-5 py-4 text-sm text-gray-700 text-right dark:text-gray-200">
-                        {currentFrom && currentFrom > 0
-                          ? currentFrom + rowIndex
-                          : rowIndex + 1}
+                      <TableCell className="px-5 py-2 text-theme-xs">
+                        {null}
                       </TableCell>
                     )}
-                    {columns.map((column) => {
+                    {visibleColumns.map((column) => {
                       const alignClass =
                         column.align === "right"
                           ? "text-end"
                           : column.align === "center"
-                          ? "text-center"
-                          : "text-start";
+                            ? "text-center"
+                            : "";
+
+                      const footerFilterNode = getColumnFilterNode(
+                        column,
+                        "footer",
+                        filterPlacement,
+                        loading,
+                      );
 
                       return (
                         <TableCell
                           key={column.id}
-                          className={`px-5 py-4 text-sm text-gray-700 dark:text-gray-200 ${alignClass}`}
+                          className={`px-5 py-2 text-theme-xs ${alignClass}`}
                         >
-                          {column.renderCell(row)}
+                          {footerFilterNode ? (
+                            <div className="flex flex-col gap-1">
+                              <span className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                                {column.footerLabel ?? column.header}
+                              </span>
+                              {footerFilterNode}
+                            </div>
+                          ) : null}
                         </TableCell>
                       );
                     })}
                   </TableRow>
-                ))}
-            </TableBody>
-
-            {/* Optional footer filter row */}
-            {columns.some((column) => column.footerFilter || column.filterConfigFooter) && (
-              <TableFooter>
-                <TableRow>
-                  {showRowNumber && (
-                    <TableCell className="px-5 py-2 text-theme-xs">{null}</TableCell>
-                  )}
-                  {columns.map((column) => {
-                    const alignClass =
-                      column.align === "right"
-                        ? "text-end"
-                        : column.align === "center"
-                        ? "text-center"
-                        : "";
-
-                    const footerFilterNode =
-                      column.footerFilter ??
-                      renderColumnFilter(column.filterConfigFooter, loading);
-
-                    return (
-                      <TableCell
-                        key={column.id}
-                        className={`px-5 py-2 text-theme-xs ${alignClass}`}
-                      >
-                        {footerFilterNode ? (
-                          <div className="flex flex-col gap-1">
-                            <span className="text-xs font-medium text-gray-500 dark:text-gray-400">
-                              {column.footerLabel ?? column.header}
-                            </span>
-                            {footerFilterNode}
-                          </div>
-                        ) : null}
-                      </TableCell>
-                    );
-                  })}
-                </TableRow>
-              </TableFooter>
-            )}
+                </TableFooter>
+              )}
           </Table>
         ) : (
           children
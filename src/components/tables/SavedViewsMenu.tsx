@@ -0,0 +1,179 @@
+import { useRef, useState, type ChangeEvent, type FormEvent } from "react";
+import { Dropdown } from "../ui/dropdown/Dropdown";
+import type { UseSavedTableViewsResult } from "../../hooks/useSavedTableViews";
+import type { SavedTableView, TableViewState } from "../../lib/savedTableViews";
+import { downloadBlob } from "../../lib/tableExport";
+import { useToast } from "../common/ToastProvider";
+
+interface SavedViewsMenuProps {
+  tableId: string;
+  savedViews: UseSavedTableViewsResult;
+  getCurrentState: () => TableViewState;
+  onApply: (view: SavedTableView) => void;
+}
+
+export default function SavedViewsMenu({
+  tableId,
+  savedViews,
+  getCurrentState,
+  onApply,
+}: SavedViewsMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const { showToast } = useToast();
+
+  const { views, defaultViewId } = savedViews;
+
+  const closeMenu = () => setIsOpen(false);
+
+  const handleSave = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    savedViews.saveView(trimmed, getCurrentState());
+    setName("");
+    showToast(`Saved view "${trimmed}".`, "success");
+  };
+
+  const handleApply = (view: SavedTableView) => {
+    onApply(view);
+    closeMenu();
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([savedViews.exportViews()], {
+      type: "application/json",
+    });
+    downloadBlob(blob, `${tableId}-views.json`);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const count = savedViews.importViews(await file.text());
+      showToast(`Imported ${count} view${count === 1 ? "" : "s"}.`, "success");
+    } catch {
+      showToast("This file is not a valid saved views export.", "error");
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="inline-flex items-center gap-2 px-4 py-3 text-sm text-gray-700 bg-white rounded-lg dropdown-toggle ring-1 ring-inset ring-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.03] dark:hover:text-gray-300"
+      >
+        Views
+        {views.length > 0 && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            ({views.length})
+          </span>
+        )}
+      </button>
+
+      <Dropdown isOpen={isOpen} onClose={closeMenu} className="w-72 p-3">
+        <p className="px-1 mb-2 text-xs font-medium text-gray-500 uppercase dark:text-gray-400">
+          Saved views
+        </p>
+
+        {views.length === 0 ? (
+          <p className="px-1 mb-3 text-sm text-gray-500 dark:text-gray-400">
+            No saved views yet.
+          </p>
+        ) : (
+          <ul className="mb-3 space-y-1">
+            {views.map((view) => {
+              const isDefault = view.id === defaultViewId;
+              return (
+                <li key={view.id} className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => handleApply(view)}
+                    className="flex-1 px-2 py-1.5 text-sm text-left text-gray-700 truncate rounded-md hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-white/5"
+                  >
+                    {view.name}
+                  </button>
+                  <button
+                    type="button"
+                    title={isDefault ? "Remove as default" : "Make default"}
+                    aria-label={
+                      isDefault ? "Remove as default" : "Make default"
+                    }
+                    onClick={() =>
+                      savedViews.setDefaultView(isDefault ? null : view.id)
+                    }
+                    className={`px-1.5 text-base ${
+                      isDefault
+                        ? "text-warning-500"
+                        : "text-gray-300 hover:text-gray-500 dark:text-gray-600 dark:hover:text-gray-400"
+                    }`}
+                  >
+                    {isDefault ? "★" : "☆"}
+                  </button>
+                  <button
+                    type="button"
+                    title="Delete view"
+                    aria-label={`Delete view ${view.name}`}
+                    onClick={() => savedViews.deleteView(view.id)}
+                    className="px-1.5 text-sm text-gray-400 hover:text-error-500"
+                  >
+                    ×
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <form onSubmit={handleSave} className="flex items-center gap-2 mb-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Name for current view"
+            aria-label="Name for current view"
+            className="h-9 flex-1 rounded-lg border border-gray-300 bg-transparent px-3 text-sm text-gray-800 shadow-theme-xs placeholder:text-gray-400 focus:border-brand-300 focus:outline-hidden focus:ring-2 focus:ring-brand-500/10 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30 dark:focus:border-brand-800"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="text-xs font-medium text-brand-500 hover:text-brand-600 disabled:cursor-not-allowed disabled:opacity-50 dark:text-brand-400"
+          >
+            Save
+          </button>
+        </form>
+
+        <div className="flex items-center justify-between pt-2 border-t border-gray-100 dark:border-gray-800">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="text-xs font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+          >
+            Import JSON
+          </button>
+          <button
+            type="button"
+            disabled={views.length === 0}
+            onClick={handleExport}
+            className="text-xs font-medium text-gray-500 hover:text-gray-700 disabled:cursor-not-allowed disabled:opacity-50 dark:text-gray-400 dark:hover:text-gray-300"
+          >
+            Export JSON
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </div>
+      </Dropdown>
+    </div>
+  );
+}
@@ -1,16 +1,52 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router";
 import DataTableShell, {
   DataTableColumn,
   DataTableFilterConfig,
   DataTableFilterConfigDefinition,
+  DataTableSelection,
   getDataTablePaging,
   useDebouncedSearch,
   useServerDataTable,
 } from "./DataTableShell";
 import { useAuth } from "../../context/AuthContext";
 import { ApiError } from "../../lib/httpClient";
+import {
+  addDaysToDate,
+  businessDateToInstant,
+  getBusinessToday,
+} from "../../lib/businessTimeZone";
+import type { DataTablesOrder } from "../../lib/dataTables";
+import type { Decoder } from "../../lib/decoders";
+import type { SavedTableView, TableViewState } from "../../lib/savedTableViews";
+import {
+  buildExportFile,
+  downloadBlob,
+  exportTable,
+  fetchAllTableRows,
+  type ExportColumn,
+  type ExportFormat,
+  type ExportProgress,
+} from "../../lib/tableExport";
+import {
+  getTableUrlSnapshot,
+  readTableUrlState,
+  writeTableUrlState,
+  type TableSortKey,
+  type TableUrlState,
+} from "../../lib/tableUrlState";
 import { useToast } from "../common/ToastProvider";
 import { useGlobalLoading } from "../common/GlobalLoadingProvider";
+import TableExportMenu from "./TableExportMenu";
+import BulkActionBar, {
+  type BulkAction,
+  type BulkActionContext,
+} from "./BulkActionBar";
+import SavedViewsMenu from "./SavedViewsMenu";
+import { useSavedTableViews } from "../../hooks/useSavedTableViews";
+import { useTableColumnPrefs } from "../../hooks/useTableColumnPrefs";
+import { useTableSelection } from "../../hooks/useTableSelection";
+import { orderColumns } from "../../lib/tableColumnPrefs";
 
 export type ServerDataTableColumn<TData = unknown> = Omit<
   DataTableColumn<TData>,
@@ -33,11 +69,92 @@ export interface ServerDataTableProps<TData = unknown> {
   mapErrorMessage?: (err: unknown) => string | null;
   onResetFilters?: () => void;
   deps?: readonly unknown[];
+  decodeRow?: Decoder<TData>;
+  // Prefix for mirroring filters, search, sort and paging in the query
+  // string. Without it the state lives in memory only.
+  urlStateKey?: string;
+  // Enables CSV/XLSX export of all matching rows; the date and extension
+  // are appended.
+  exportFileName?: string;
+  // Enables saved views and the column chooser, stored per user under this
+  // id.
+  tableId?: string;
+  // Enables row selection with these actions. Selected rows are tracked by
+  // `getRowKey`, so it should not depend on the row's position. Without it,
+  // rows are keyed by their index on the page and "select all matching" is
+  // not offered, since exclusions could not be matched across pages.
+  bulkActions?: BulkAction<TData>[];
+  onRowClick?: (row: TData) => void;
 }
 
-function getFilterStateFromColumns<TData>(
-  columns: DataTableColumn<TData>[],
-): {
+// Delay before a state change is written to the URL, so typing into a filter
+// creates one history entry instead of one per keystroke.
+const URL_SYNC_DELAY_MS = 500;
+
+// Drops keys for columns that no longer exist or cannot be sorted.
+function getValidSortKeys<TData>(
+  columns: ServerDataTableColumn<TData>[],
+  keys: TableSortKey[] | undefined,
+): TableSortKey[] {
+  return (keys ?? []).filter((key) =>
+    columns.some((column) => column.sortable && column.id === key.columnId),
+  );
+}
+
+// A click sorts by the column alone, cycling asc -> desc -> none. A
+// shift-click adds the column as the next key, or cycles it in place.
+function getNextSortKeys(
+  keys: TableSortKey[],
+  columnId: string,
+  additive: boolean,
+): TableSortKey[] {
+  const current = keys.find((key) => key.columnId === columnId);
+  const next: TableSortKey | null = !current
+    ? { columnId, dir: "asc" }
+    : current.dir === "asc"
+      ? { columnId, dir: "desc" }
+      : null;
+
+  if (!additive) {
+    return next ? [next] : [];
+  }
+  if (!current) {
+    return next ? [...keys, next] : keys;
+  }
+  return next
+    ? keys.map((key) => (key.columnId === columnId ? next : key))
+    : keys.filter((key) => key.columnId !== columnId);
+}
+
+function getSortOrder<TData>(
+  columns: ServerDataTableColumn<TData>[],
+  keys: TableSortKey[],
+): DataTablesOrder[] {
+  return keys.map((key) => ({
+    column: columns.findIndex((column) => column.id === key.columnId),
+    dir: key.dir,
+  }));
+}
+
+function getExportColumns<TData>(
+  columns: ServerDataTableColumn<TData>[],
+): ExportColumn<TData>[] {
+  return columns.map((column) => ({
+    header:
+      column.exportHeader ??
+      (typeof column.header === "string" ? column.header : column.id),
+    getValue:
+      column.exportValue ??
+      ((row) => {
+        const value = column.renderCell(row);
+        return typeof value === "string" || typeof value === "number"
+          ? value
+          : null;
+      }),
+  }));
+}
+
+function getFilterStateFromColumns<TData>(columns: DataTableColumn<TData>[]): {
   extraFilters: Record<string, string | number | null | undefined>;
   filterDeps: unknown[];
 } {
@@ -89,18 +206,22 @@ function getFilterStateFromColumns<TData>(
       const fromKey = config.fromQueryKey;
       const toKey = config.toQueryKey;
 
+      // Dates are business-timezone days; the upper bound is sent as the
+      // start of the next day so the whole selected day is included.
       const rawFrom = config.getFrom();
       filterDeps.push(rawFrom);
       const trimmedFrom = rawFrom.trim();
       if (fromKey && trimmedFrom) {
-        extraFilters[fromKey] = trimmedFrom;
+        extraFilters[fromKey] = businessDateToInstant(trimmedFrom);
       }
 
       const rawTo = config.getTo();
       filterDeps.push(rawTo);
       const trimmedTo = rawTo.trim();
       if (toKey && trimmedTo) {
-        extraFilters[toKey] = trimmedTo;
+        extraFilters[toKey] = businessDateToInstant(
+          addDaysToDate(trimmedTo, 1),
+        );
       }
       continue;
     }
@@ -109,7 +230,85 @@ function getFilterStateFromColumns<TData>(
   return { extraFilters, filterDeps };
 }
 
-export default function ServerDataTable<TData = unknown>({
+// Restores table state from the URL on mount and mirrors changes back. When
+// the URL changes for another reason (back/forward, a link), the table is
+// re-created from it; its own writes never re-create it.
+export default function ServerDataTable<TData = unknown>(
+  props: ServerDataTableProps<TData>,
+) {
+  const { urlStateKey, pageSizeInitial = 10 } = props;
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const urlSnapshot = urlStateKey
+    ? getTableUrlSnapshot(searchParams, urlStateKey)
+    : "";
+  // `seen` is the URL state the table currently reflects, `written` the
+  // snapshots it wrote itself that the router has not applied yet. The
+  // router applies navigations in a transition, so renders in between still
+  // see the old URL; only a snapshot the table did not write re-creates it.
+  const [urlSync, setUrlSync] = useState<{ seen: string; written: string[] }>({
+    seen: urlSnapshot,
+    written: [],
+  });
+  const [mountKey, setMountKey] = useState(0);
+
+  if (urlSnapshot !== urlSync.seen) {
+    const writtenIndex = urlSync.written.indexOf(urlSnapshot);
+    setUrlSync({
+      seen: urlSnapshot,
+      written:
+        writtenIndex === -1 ? [] : urlSync.written.slice(writtenIndex + 1),
+    });
+    if (writtenIndex === -1) {
+      setMountKey((key) => key + 1);
+    }
+  }
+
+  const initialUrlState =
+    urlStateKey && urlSnapshot
+      ? readTableUrlState(searchParams, urlStateKey, {
+          pageSize: pageSizeInitial,
+        })
+      : undefined;
+
+  const handleUrlStateChange = (state: TableUrlState, replace: boolean) => {
+    if (!urlStateKey) return;
+
+    const next = writeTableUrlState(searchParams, urlStateKey, state, {
+      pageSize: pageSizeInitial,
+    });
+    const nextSnapshot = getTableUrlSnapshot(next, urlStateKey);
+    if (nextSnapshot === urlSnapshot) return;
+
+    // Recorded first so the resulting URL change is not mistaken for an
+    // external one.
+    setUrlSync((prev) => ({
+      ...prev,
+      written: [...prev.written, nextSnapshot],
+    }));
+    setSearchParams(next, { replace });
+  };
+
+  return (
+    <ServerDataTableContent<TData>
+      key={mountKey}
+      {...props}
+      initialUrlState={initialUrlState}
+      onUrlStateChange={urlStateKey ? handleUrlStateChange : undefined}
+    />
+  );
+}
+
+interface ServerDataTableContentProps<TData>
+  extends ServerDataTableProps<TData> {
+  // Only set when the URL holds state for this table.
+  initialUrlState?: TableUrlState;
+  // `replace` is set for the first write after mount, which only records
+  // state the table opened with (e.g. a default view).
+  onUrlStateChange?: (state: TableUrlState, replace: boolean) => void;
+}
+
+function ServerDataTableContent<TData>({
   columns,
   endpoint,
   token,
@@ -122,10 +321,30 @@ export default function ServerDataTable<TData = unknown>({
   mapErrorMessage,
   onResetFilters,
   deps,
-}: ServerDataTableProps<TData>) {
-  const [sortColumn, setSortColumn] = useState<number | null>(null);
-  const [sortDir, setSortDir] = useState<"asc" | "desc">("desc");
-  const [filterState, setFilterState] = useState<Record<string, string>>({});
+  decodeRow,
+  initialUrlState,
+  onUrlStateChange,
+  exportFileName,
+  tableId,
+  bulkActions,
+  onRowClick,
+}: ServerDataTableContentProps<TData>) {
+  const savedViews = useSavedTableViews(tableId);
+  const columnPrefs = useTableColumnPrefs(tableId);
+
+  // Without state in the URL the table opens on the default saved view.
+  const [initialState] = useState<TableUrlState | undefined>(() => {
+    const view = savedViews.defaultView;
+    if (initialUrlState || !view) return initialUrlState;
+    return { ...view.state, search: "", pageIndex: 0 };
+  });
+
+  const [sortKeys, setSortKeys] = useState<TableSortKey[]>(() =>
+    getValidSortKeys(columns, initialState?.sort),
+  );
+  const [filterState, setFilterState] = useState<Record<string, string>>(
+    () => initialState?.filters ?? {},
+  );
 
   const { token: authToken } = useAuth();
   const effectiveToken = token ?? authToken;
@@ -151,6 +370,7 @@ export default function ServerDataTable<TData = unknown>({
     setPendingSearch,
     reset: resetSearch,
   } = useDebouncedSearch({
+    initialValue: initialState?.search,
     minLength: searchMinLength,
     delayMs: searchDelayMs,
     onCommit: () => setPageIndex(0),
@@ -245,25 +465,37 @@ export default function ServerDataTable<TData = unknown>({
     [columnsWithState],
   );
 
+  // A new search or filter starts a new selection. Paging keeps it: the
+  // table's own URL writes do not re-create this component, only external
+  // navigation does.
+  const selection = useTableSelection<TData>(
+    JSON.stringify([search, extraFilters]),
+  );
+
+  const sortOrder = useMemo(
+    () => getSortOrder(columns, sortKeys),
+    [columns, sortKeys],
+  );
+
   const buildQueryOptions = useCallback(
-    (
-      {
-        pageIndex: qPageIndex,
-        pageSize: qPageSize,
-      }: { pageIndex: number; pageSize: number },
-    ) => ({
+    ({
+      pageIndex: qPageIndex,
+      pageSize: qPageSize,
+    }: {
+      pageIndex: number;
+      pageSize: number;
+    }) => ({
       start: qPageIndex * qPageSize,
       length: qPageSize,
       search,
-      sortColumn,
-      sortDir,
+      order: sortOrder,
       extraFilters,
     }),
-    [search, sortColumn, sortDir, extraFilters],
+    [search, sortOrder, extraFilters],
   );
 
   const userDeps = deps ?? [];
-  const mergedDeps = [search, sortColumn, sortDir, ...filterDeps, ...userDeps];
+  const mergedDeps = [search, sortKeys, ...filterDeps, ...userDeps];
 
   const {
     data,
@@ -278,10 +510,12 @@ export default function ServerDataTable<TData = unknown>({
   } = useServerDataTable<TData>({
     endpoint,
     token: effectiveToken,
-    pageSizeInitial,
+    pageSizeInitial: initialState?.pageSize ?? pageSizeInitial,
+    pageIndexInitial: initialState?.pageIndex,
     buildQueryOptions,
     deps: mergedDeps,
     mapErrorMessage: effectiveMapErrorMessage,
+    decodeRow,
   });
 
   useEffect(() => {
@@ -306,11 +540,48 @@ export default function ServerDataTable<TData = unknown>({
     showToast(message, "error");
   }, [error, showToast]);
 
+  // Only actual changes reset the page, so a page restored from the URL
+  // survives the first render.
+  const pageResetDeps = [...filterDeps, ...userDeps];
+  const prevPageResetDepsRef = useRef(pageResetDeps);
   useEffect(() => {
-    const hasDeps = filterDeps.length > 0 || userDeps.length > 0;
-    if (!hasDeps) return;
+    const prev = prevPageResetDepsRef.current;
+    prevPageResetDepsRef.current = pageResetDeps;
+
+    const changed =
+      prev.length !== pageResetDeps.length ||
+      prev.some((value, index) => !Object.is(value, pageResetDeps[index]));
+    if (!changed) return;
     setPageIndex(0);
-  }, [setPageIndex, ...filterDeps, ...userDeps]);
+  }, [setPageIndex, ...pageResetDeps]);
+
+  const onUrlStateChangeRef = useRef(onUrlStateChange);
+  useEffect(() => {
+    onUrlStateChangeRef.current = onUrlStateChange;
+  });
+  const isFirstUrlSyncRef = useRef(true);
+
+  useEffect(() => {
+    if (!onUrlStateChangeRef.current) return;
+
+    const timeoutId = window.setTimeout(() => {
+      onUrlStateChangeRef.current?.(
+        {
+          filters: filterState,
+          search,
+          sort: sortKeys,
+          pageIndex,
+          pageSize,
+        },
+        isFirstUrlSyncRef.current,
+      );
+      isFirstUrlSyncRef.current = false;
+    }, URL_SYNC_DELAY_MS);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [filterState, search, sortKeys, pageIndex, pageSize]);
 
   const {
     currentFrom,
@@ -327,25 +598,9 @@ export default function ServerDataTable<TData = unknown>({
     onPageIndexChange: setPageIndex,
   });
 
-  const handleSort = (columnIndex: number) => {
+  const handleSort = (columnId: string, additive: boolean) => {
     setPageIndex(0);
-    setSortColumn((prevCol) => {
-      // 3-state toggle per column: asc -> desc -> none
-      if (prevCol === columnIndex) {
-        if (sortDir === "asc") {
-          setSortDir("desc");
-          return columnIndex;
-        }
-
-        // Currently desc: clear sorting for this column
-        setSortDir("desc");
-        return null;
-      }
-
-      // New column: start with ascending
-      setSortDir("asc");
-      return columnIndex;
-    });
+    setSortKeys((prev) => getNextSortKeys(prev, columnId, additive));
   };
 
   const handleResetFilters = () => {
@@ -367,24 +622,147 @@ export default function ServerDataTable<TData = unknown>({
     }
   };
 
+  const getCurrentViewState = (): TableViewState => ({
+    filters: filterState,
+    sort: sortKeys,
+    pageSize,
+    hiddenColumns: columnPrefs.hidden,
+  });
+
+  const applyView = ({ state }: SavedTableView) => {
+    setFilterState(state.filters);
+    setSortKeys(getValidSortKeys(columns, state.sort));
+    setPageSize(state.pageSize);
+    setPageIndex(0);
+    columnPrefs.setHiddenColumns(state.hiddenColumns);
+  };
+
   const enhancedColumns: DataTableColumn<TData>[] = useMemo(
     () =>
-      columnsWithState.map((column, index) => {
+      columnsWithState.map((column) => {
         if (!column.sortable) {
           return column;
         }
 
-        const isCurrent = sortColumn !== null && index === sortColumn;
+        const keyIndex = sortKeys.findIndex(
+          (key) => key.columnId === column.id,
+        );
 
         return {
           ...column,
-          sortDirection: isCurrent ? sortDir : null,
-          onSort: () => handleSort(index),
+          sortDirection: keyIndex >= 0 ? sortKeys[keyIndex].dir : null,
+          // Priorities only matter once there is more than one key.
+          sortPriority:
+            keyIndex >= 0 && sortKeys.length > 1 ? keyIndex + 1 : null,
+          onSort: (additive: boolean) => handleSort(column.id, additive),
         };
       }),
-    [columnsWithState, sortColumn, sortDir],
+    [columnsWithState, sortKeys],
+  );
+
+  // Exports follow the columns as arranged on screen.
+  const exportColumns = getExportColumns(
+    orderColumns(columns, columnPrefs.order).filter(
+      (column) => !columnPrefs.hidden.includes(column.id),
+    ),
   );
 
+  const handleExport = async (
+    format: ExportFormat,
+    options: {
+      signal: AbortSignal;
+      onProgress: (progress: ExportProgress) => void;
+    },
+  ) => {
+    const blob = await exportTable<TData>({
+      endpoint,
+      token: effectiveToken,
+      query: buildQueryOptions({ pageIndex: 0, pageSize }),
+      columns: exportColumns,
+      format,
+      decodeRow,
+      ...options,
+    });
+    downloadBlob(blob, `${exportFileName}-${getBusinessToday()}.${format}`);
+  };
+
+  const getSelectionKey = (row: TData, index: number) =>
+    getRowKey ? getRowKey(row, index) : index;
+
+  const selectedOnPage = data.filter((row, index) =>
+    selection.isSelected(getSelectionKey(row, index)),
+  ).length;
+  const pageSelectionState =
+    selectedOnPage === 0
+      ? "none"
+      : selectedOnPage === data.length
+        ? "all"
+        : "some";
+  const selectionCount = selection.getCount(recordsFiltered);
+
+  const bulkActionContext: BulkActionContext<TData> = {
+    count: selectionCount,
+    allMatching: selection.allMatching,
+    getRows: async () => {
+      if (!selection.allMatching) return selection.selectedRows;
+
+      const rows = await fetchAllTableRows<TData>({
+        endpoint,
+        token: effectiveToken,
+        query: buildQueryOptions({ pageIndex: 0, pageSize }),
+        decodeRow,
+      });
+      return rows.filter(
+        (row, index) =>
+          !selection.excludedKeys.has(getSelectionKey(row, index)),
+      );
+    },
+    exportRows: (rows, format) => {
+      const fileName = exportFileName ?? tableId ?? "export";
+      downloadBlob(
+        buildExportFile(rows, exportColumns, format),
+        `${fileName}-selected-${getBusinessToday()}.${format}`,
+      );
+    },
+    clearSelection: selection.clear,
+  };
+
+  const tableSelection: DataTableSelection<TData> | undefined = bulkActions
+    ? {
+        isRowSelected: (row, index) =>
+          selection.isSelected(getSelectionKey(row, index)),
+        onRowSelectedChange: (row, index, selected) =>
+          selection.setSelected(
+            [{ key: getSelectionKey(row, index), row }],
+            selected,
+          ),
+        pageState: pageSelectionState,
+        onPageSelectedChange: (selected) =>
+          selection.setSelected(
+            data.map((row, index) => ({
+              key: getSelectionKey(row, index),
+              row,
+            })),
+            selected,
+          ),
+        actionBar:
+          selectionCount > 0 ? (
+            <BulkActionBar<TData>
+              actions={bulkActions}
+              context={bulkActionContext}
+              total={recordsFiltered}
+              canSelectAllMatching={
+                getRowKey !== undefined &&
+                !selection.allMatching &&
+                pageSelectionState === "all" &&
+                recordsFiltered > selectionCount
+              }
+              onSelectAllMatching={selection.selectAllMatching}
+            />
+          ) : null,
+      }
+    : undefined;
+
   return (
     <DataTableShell<TData>
       columns={enhancedColumns}
@@ -409,6 +787,22 @@ export default function ServerDataTable<TData = unknown>({
       totalPages={totalPages}
       onPageChange={goToPage}
       showRowNumber
+      columnPrefs={tableId ? columnPrefs : undefined}
+      selection={tableSelection}
+      onRowClick={onRowClick}
+      toolbarActions={
+        <>
+          {tableId && (
+            <SavedViewsMenu
+              tableId={tableId}
+              savedViews={savedViews}
+              getCurrentState={getCurrentViewState}
+              onApply={applyView}
+            />
+          )}
+          {exportFileName && <TableExportMenu onExport={handleExport} />}
+        </>
+      }
     />
   );
 }
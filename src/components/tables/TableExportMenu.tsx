@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from "react";
+import Button from "../ui/button/Button";
+import { DownloadIcon } from "../../icons";
+import { isAbortError, mapApiErrorToMessage } from "../../lib/httpClient";
+import {
+  ExportTooLargeError,
+  type ExportFormat,
+  type ExportProgress,
+} from "../../lib/tableExport";
+import { useToast } from "../common/ToastProvider";
+
+interface TableExportMenuProps {
+  onExport: (
+    format: ExportFormat,
+    options: {
+      signal: AbortSignal;
+      onProgress: (progress: ExportProgress) => void;
+    },
+  ) => Promise<void>;
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "csv", label: "CSV" },
+  { format: "xlsx", label: "XLSX" },
+];
+
+export default function TableExportMenu({ onExport }: TableExportMenuProps) {
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const { showToast } = useToast();
+
+  // Leaving the page cancels a running export.
+  useEffect(() => {
+    return () => {
+      controllerRef.current?.abort();
+    };
+  }, []);
+
+  const handleExport = async (format: ExportFormat) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress({ loaded: 0, total: 0 });
+
+    try {
+      await onExport(format, {
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+    } catch (err) {
+      if (!isAbortError(err)) {
+        showToast(
+          err instanceof ExportTooLargeError
+            ? err.message
+            : mapApiErrorToMessage(err, {
+                defaultMessage: "Failed to export data.",
+              }),
+          "error",
+        );
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  if (progress) {
+    const percent =
+      progress.total > 0
+        ? Math.round((progress.loaded / progress.total) * 100)
+        : 0;
+
+    return (
+      <div className="flex items-center gap-3">
+        <div className="w-40">
+          <div className="mb-1 text-xs text-gray-500 dark:text-gray-400">
+            Exporting {progress.loaded.toLocaleString("en-US")}
+            {progress.total > 0 &&
+              ` of ${progress.total.toLocaleString("en-US")}`}
+          </div>
+          <div className="h-1.5 w-full overflow-hidden rounded-full bg-gray-200 dark:bg-gray-800">
+            <div
+              className="h-full rounded-full bg-brand-500 transition-all"
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => controllerRef.current?.abort()}
+          className="text-xs font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+        >
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {FORMATS.map(({ format, label }) => (
+        <Button
+          key={format}
+          size="sm"
+          variant="outline"
+          startIcon={<DownloadIcon className="size-4" />}
+          onClick={() => handleExport(format)}
+        >
+          {label}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useEffect, type ReactNode } from "react";
+import { Link } from "react-router";
+import Badge from "../../ui/badge/Badge";
+import CopyButton from "../../common/CopyButton";
+import TransactionPartyBalance from "../../wallet/TransactionPartyBalance";
+import TransactionPartyLink from "../../wallet/TransactionPartyLink";
+import TransactionTimeline from "../../wallet/TransactionTimeline";
+import { CloseIcon } from "../../../icons";
+import { useTransaction } from "../../../hooks/useReporting";
+import {
+  formatDateTime,
+  formatTransactionAmount,
+} from "../../../lib/formatters";
+import type { TransactionRow } from "../../../lib/reportingApi";
+import { getTransactionLink } from "../../../lib/transactionLinks";
+
+interface TransactionDetailDrawerProps {
+  // Open while set.
+  transactionId: string | null;
+  // The row clicked in the table, shown while the full record loads.
+  initialRow?: TransactionRow | null;
+  onClose: () => void;
+  onOpenTransaction: (id: string) => void;
+}
+
+function DetailRow({
+  label,
+  children,
+}: {
+  label: string;
+  children: ReactNode;
+}) {
+  return (
+    <div className="flex items-start justify-between gap-4 py-3">
+      <dt className="text-sm text-gray-500 dark:text-gray-400">{label}</dt>
+      <dd className="text-sm text-right text-gray-800 break-all dark:text-white/90">
+        {children}
+      </dd>
+    </div>
+  );
+}
+
+function SectionTitle({ children }: { children: ReactNode }) {
+  return (
+    <h4 className="mb-2 text-xs font-medium text-gray-500 uppercase dark:text-gray-400">
+      {children}
+    </h4>
+  );
+}
+
+export default function TransactionDetailDrawer({
+  transactionId,
+  initialRow,
+  onClose,
+  onOpenTransaction,
+}: TransactionDetailDrawerProps) {
+  const { data, loading, error, notFound } = useTransaction(transactionId);
+  const open = transactionId !== null;
+
+  const transaction =
+    data ?? (initialRow?.id === transactionId ? initialRow : null) ?? null;
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-[99999] bg-black/40"
+      onMouseDown={(event) => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+    >
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label="Transaction details"
+        className="absolute inset-y-0 right-0 flex flex-col w-full max-w-md bg-white shadow-theme-xl dark:bg-gray-900"
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-100 dark:border-white/[0.05]">
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-white/90">
+            Transaction details
+          </h3>
+          <div className="flex items-center gap-3">
+            {transactionId && !notFound && (
+              <Link
+                to={getTransactionLink(transactionId)}
+                className="text-xs font-medium text-brand-500 hover:text-brand-600 dark:text-brand-400"
+              >
+                Open page
+              </Link>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              aria-label="Close"
+              className="inline-flex items-center justify-center rounded-full size-9 text-gray-500 hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-white/5 dark:hover:text-gray-300"
+            >
+              <CloseIcon className="size-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 px-5 py-4 overflow-y-auto">
+          {notFound ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Transaction not found. It may have been removed, or the link is
+              wrong.
+            </p>
+          ) : !transaction ? (
+            <p
+              className={`text-sm ${
+                error ? "text-error-500" : "text-gray-500 dark:text-gray-400"
+              }`}
+            >
+              {error ?? (loading ? "Loading..." : "")}
+            </p>
+          ) : (
+            <div className="space-y-6">
+              <div className="flex items-center justify-between gap-3">
+                <span
+                  className={`text-2xl font-semibold ${
+                    transaction.type === "DEBIT"
+                      ? "text-error-600 dark:text-error-500"
+                      : "text-success-600 dark:text-success-500"
+                  }`}
+                >
+                  {formatTransactionAmount(
+                    transaction.amount,
+                    transaction.type,
+                  )}
+                </span>
+                <Badge
+                  size="sm"
+                  color={transaction.type === "DEBIT" ? "error" : "success"}
+                >
+                  {transaction.type}
+                </Badge>
+              </div>
+
+              <dl className="divide-y divide-gray-100 dark:divide-white/[0.05]">
+                <DetailRow label="ID">
+                  <span className="inline-flex items-center gap-1 font-mono text-xs">
+                    {transaction.id}
+                    <CopyButton value={transaction.id} label="Copy ID" />
+                  </span>
+                </DetailRow>
+                <DetailRow label="Date">
+                  {formatDateTime(transaction.createdAt)}
+                </DetailRow>
+                <DetailRow label="Timestamp">
+                  <span className="font-mono text-xs">
+                    {transaction.createdAt}
+                  </span>
+                </DetailRow>
+                <DetailRow label="From">
+                  <TransactionPartyLink
+                    role="from"
+                    username={transaction.from_username}
+                  />
+                </DetailRow>
+                <DetailRow label="To">
+                  <TransactionPartyLink
+                    role="to"
+                    username={transaction.to_username}
+                  />
+                </DetailRow>
+              </dl>
+
+              <section>
+                <SectionTitle>Balances</SectionTitle>
+                <TransactionPartyBalance transaction={transaction} />
+              </section>
+
+              <section>
+                <SectionTitle>Timeline</SectionTitle>
+                <TransactionTimeline
+                  transaction={transaction}
+                  onOpenTransaction={onOpenTransaction}
+                />
+              </section>
+            </div>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -1,20 +1,54 @@
-import { useMemo } from "react";
+import { useCallback, useMemo, useState } from "react";
+import { useSearchParams } from "react-router";
+import { CopyIcon, DownloadIcon } from "../../../icons";
 import { API_ENDPOINTS } from "../../../lib/apiEndpoints";
-import { formatAmount, formatDateTime } from "../../../lib/formatters";
-import ServerDataTable, {
-  ServerDataTableColumn,
-} from "../ServerDataTable";
+import {
+  formatDateTime,
+  formatTransactionAmount,
+} from "../../../lib/formatters";
+import {
+  transactionRowDecoder,
+  type TransactionRow,
+} from "../../../lib/reportingApi";
+import {
+  TRANSACTION_DRAWER_PARAM,
+  TRANSACTIONS_TABLE_URL_KEY,
+} from "../../../lib/transactionLinks";
+import ServerDataTable, { ServerDataTableColumn } from "../ServerDataTable";
+import type { BulkAction } from "../BulkActionBar";
+import { useToast } from "../../common/ToastProvider";
+import TransactionDetailDrawer from "./TransactionDetailDrawer";
 
-export type TransactionRow = {
-  id: string;
-  createdAt: string;
-  amount: number;
-  type: "DEBIT" | "CREDIT";
-  from_username: string | null;
-  to_username: string;
-};
+export type { TransactionRow };
 
 export default function TransactionsTable() {
+  const { showToast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [clickedRow, setClickedRow] = useState<TransactionRow | null>(null);
+
+  // The open transaction lives in the query string, next to the table's own
+  // state, so a drawer can be linked to and closing it keeps the filters.
+  const openTransactionId = searchParams.get(TRANSACTION_DRAWER_PARAM);
+
+  const openTransaction = useCallback(
+    (id: string) =>
+      setSearchParams((prev) => {
+        const next = new URLSearchParams(prev);
+        next.set(TRANSACTION_DRAWER_PARAM, id);
+        return next;
+      }),
+    [setSearchParams],
+  );
+  const closeDrawer = useCallback(
+    () =>
+      setSearchParams((prev) => {
+        const next = new URLSearchParams(prev);
+        next.delete(TRANSACTION_DRAWER_PARAM);
+        return next;
+      }),
+    [setSearchParams],
+  );
+
   const columns: ServerDataTableColumn<TransactionRow>[] = useMemo(
     () => [
       {
@@ -31,8 +65,8 @@ export default function TransactionsTable() {
           fromQueryKey: "dateFrom",
           toQueryKey: "dateTo",
         },
-        renderCell: (row) =>
-          formatDateTime((row as TransactionRow).createdAt),
+        exportHeader: "Date / Time",
+        renderCell: (row) => formatDateTime((row as TransactionRow).createdAt),
       },
       {
         id: "from",
@@ -109,11 +143,12 @@ export default function TransactionsTable() {
           minQueryKey: "minAmount",
           maxQueryKey: "maxAmount",
         },
+        // Signed raw amount so spreadsheets can sum it.
+        exportValue: (row) =>
+          row.type === "DEBIT" ? -Math.abs(row.amount) : Math.abs(row.amount),
         renderCell: (row) => {
           const tx = row as TransactionRow;
-          const formatted = formatAmount(tx.amount);
-          const display =
-            tx.type === "DEBIT" ? `Rp-${formatted}` : `Rp${formatted}`;
+          const display = formatTransactionAmount(tx.amount, tx.type);
           const colorClass =
             tx.type === "DEBIT"
               ? "text-error-600 dark:text-error-500"
@@ -126,13 +161,59 @@ export default function TransactionsTable() {
     [],
   );
 
+  const bulkActions: BulkAction<TransactionRow>[] = useMemo(
+    () => [
+      {
+        id: "export",
+        label: "Export selected",
+        icon: <DownloadIcon className="size-4" />,
+        run: async ({ getRows, exportRows }) => {
+          exportRows(await getRows(), "csv");
+        },
+      },
+      {
+        id: "copy-ids",
+        label: "Copy IDs",
+        icon: <CopyIcon className="size-4" />,
+        run: async ({ getRows }) => {
+          const rows = await getRows();
+          await navigator.clipboard.writeText(
+            rows.map((row) => row.id).join("\n"),
+          );
+          showToast(
+            `Copied ${rows.length} transaction ID${rows.length === 1 ? "" : "s"}.`,
+            "success",
+          );
+        },
+      },
+    ],
+    [showToast],
+  );
+
   return (
-    <ServerDataTable<TransactionRow>
-      columns={columns}
-      endpoint={API_ENDPOINTS.transactions}
-      getRowKey={(row) => row.id}
-      pageSizeInitial={10}
-      emptyMessage="No transactions found."
-    />
+    <>
+      <ServerDataTable<TransactionRow>
+        columns={columns}
+        endpoint={API_ENDPOINTS.transactions}
+        getRowKey={(row) => row.id}
+        pageSizeInitial={10}
+        emptyMessage="No transactions found."
+        decodeRow={transactionRowDecoder}
+        urlStateKey={TRANSACTIONS_TABLE_URL_KEY}
+        exportFileName="transactions"
+        tableId="transactions"
+        bulkActions={bulkActions}
+        onRowClick={(row) => {
+          setClickedRow(row);
+          openTransaction(row.id);
+        }}
+      />
+      <TransactionDetailDrawer
+        transactionId={openTransactionId}
+        initialRow={clickedRow}
+        onClose={closeDrawer}
+        onOpenTransaction={openTransaction}
+      />
+    </>
   );
 }
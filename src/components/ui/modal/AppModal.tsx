@@ -8,6 +8,7 @@ type AppModalProps = {
   title?: string;
   description?: string;
   footer?: ReactNode;
+  children?: ReactNode;
   closeOnEsc?: boolean;
   closeOnBackdrop?: boolean;
 };
@@ -19,14 +20,13 @@ export default function AppModal({
   title = "Coming soon",
   description,
   footer,
+  children,
   closeOnEsc = true,
   closeOnBackdrop = true,
 }: AppModalProps) {
   const label = featureLabel ?? "This feature";
 
-  const handleBackdropMouseDown = (
-    event: MouseEvent<HTMLDivElement>,
-  ): void => {
+  const handleBackdropMouseDown = (event: MouseEvent<HTMLDivElement>): void => {
     if (!closeOnBackdrop) return;
     if (event.target === event.currentTarget) {
       onClose();
@@ -52,7 +52,9 @@ export default function AppModal({
   return (
     <div
       className={`fixed inset-0 z-[999999] flex items-center justify-center bg-black/40 transition-opacity duration-300 ease-out ${
-        open ? "opacity-100 pointer-events-auto" : "opacity-0 pointer-events-none"
+        open
+          ? "opacity-100 pointer-events-auto"
+          : "opacity-0 pointer-events-none"
       }`}
       onMouseDown={handleBackdropMouseDown}
     >
@@ -65,8 +67,10 @@ export default function AppModal({
           {title}
         </h2>
         <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
-          {description ?? `${label} is not available yet. Please check back soon.`}
+          {description ??
+            `${label} is not available yet. Please check back soon.`}
         </p>
+        {children && <div className="mt-4">{children}</div>}
         <div className="flex justify-end mt-6 gap-2">
           {footer ?? (
             <button
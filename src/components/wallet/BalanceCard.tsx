@@ -0,0 +1,69 @@
+import { useBalance } from "../../hooks/useBalance";
+import { formatAmount, formatDateTime } from "../../lib/formatters";
+import { DollarLineIcon } from "../../icons";
+import Badge from "../ui/badge/Badge";
+
+export default function BalanceCard() {
+  const { hasToken, balance, loading, error, stale, lastUpdatedAt, refresh } =
+    useBalance();
+
+  if (!hasToken) {
+    return null;
+  }
+
+  let value;
+  if (balance !== null) {
+    value = `Rp${formatAmount(balance)}`;
+  } else if (loading) {
+    value = (
+      <span className="block h-7 w-32 rounded bg-gray-200 animate-pulse dark:bg-gray-700" />
+    );
+  } else {
+    value = "-";
+  }
+
+  return (
+    <div className="rounded-2xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-white/[0.03] md:p-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center justify-center w-12 h-12 bg-gray-100 rounded-xl dark:bg-gray-800">
+          <DollarLineIcon className="text-gray-800 size-6 dark:text-white/90" />
+        </div>
+        <button
+          type="button"
+          onClick={refresh}
+          disabled={loading}
+          className="text-xs font-medium text-brand-500 hover:text-brand-600 disabled:cursor-not-allowed disabled:opacity-50 dark:text-brand-400"
+        >
+          {loading ? "Refreshing..." : "Refresh"}
+        </button>
+      </div>
+
+      <div className="flex items-end justify-between mt-5">
+        <div>
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            Wallet balance
+          </span>
+          <h4 className="mt-2 font-bold text-gray-800 text-title-sm dark:text-white/90">
+            {value}
+          </h4>
+          {lastUpdatedAt && (
+            <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">
+              Updated {formatDateTime(lastUpdatedAt)}
+            </p>
+          )}
+        </div>
+        {stale && (
+          <span title={error ?? undefined}>
+            <Badge color="warning" size="sm">
+              Stale
+            </Badge>
+          </span>
+        )}
+      </div>
+
+      {error && balance === null && (
+        <p className="mt-3 text-sm text-error-500">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState, type FormEvent } from "react";
+import Label from "../form/Label";
+import Input from "../form/input/InputField";
+import Button from "../ui/button/Button";
+import AppModal from "../ui/modal/AppModal";
+import { useAuth } from "../../context/AuthContext";
+import { useToast } from "../common/ToastProvider";
+import { mapApiErrorToMessage } from "../../lib/httpClient";
+import { validateAmountInput } from "../../lib/amountValidation";
+import { formatAmount } from "../../lib/formatters";
+import { notifyWalletChanged } from "../../lib/walletEvents";
+import { topUp } from "../../lib/walletApi";
+
+export default function TopUpForm() {
+  const { token } = useAuth();
+  const { showToast } = useToast();
+
+  const [amountInput, setAmountInput] = useState("");
+  const [fieldError, setFieldError] = useState<string | null>(null);
+  const [pendingAmount, setPendingAmount] = useState<number | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleReview = (event: FormEvent<HTMLFormElement>): void => {
+    event.preventDefault();
+
+    const result = validateAmountInput(amountInput);
+    if (!result.ok) {
+      setFieldError(result.message);
+      return;
+    }
+
+    setFieldError(null);
+    setPendingAmount(result.amount);
+  };
+
+  const handleCloseConfirm = () => {
+    if (submitting) return;
+    setPendingAmount(null);
+  };
+
+  const handleConfirm = async (): Promise<void> => {
+    if (pendingAmount === null || submitting) return;
+
+    setSubmitting(true);
+
+    try {
+      await topUp({ amount: pendingAmount }, token);
+
+      showToast(
+        `Top-up of Rp${formatAmount(pendingAmount)} successful.`,
+        "success",
+      );
+      notifyWalletChanged();
+      setAmountInput("");
+      setPendingAmount(null);
+    } catch (err) {
+      const message = mapApiErrorToMessage(err, {
+        defaultMessage: "Failed to top up. Please try again.",
+        badRequestMessage: "The top-up amount was rejected by the server.",
+        rateLimitMessage:
+          "Too many requests. Please wait a moment before topping up again.",
+        serverErrorMessage:
+          "Server error while topping up. Please try again later.",
+      });
+      showToast(message, "error");
+      setPendingAmount(null);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <form onSubmit={handleReview} className="max-w-md space-y-6">
+        <div>
+          <Label htmlFor="topup-amount">
+            Amount <span className="text-error-500">*</span>
+          </Label>
+          <Input
+            type="text"
+            id="topup-amount"
+            name="amount"
+            placeholder="e.g. 100000"
+            value={amountInput}
+            autoComplete="off"
+            error={Boolean(fieldError)}
+            hint={fieldError ?? "Whole rupiah amount to add to the wallet."}
+            onChange={(event) => {
+              setAmountInput(event.target.value);
+              if (fieldError) setFieldError(null);
+            }}
+          />
+        </div>
+        <Button size="sm" disabled={submitting}>
+          Review top-up
+        </Button>
+      </form>
+
+      <AppModal
+        open={pendingAmount !== null}
+        onClose={handleCloseConfirm}
+        closeOnBackdrop={!submitting}
+        closeOnEsc={!submitting}
+        title="Confirm top-up"
+        description={
+          pendingAmount !== null
+            ? `Add Rp${formatAmount(pendingAmount)} to the wallet?`
+            : ""
+        }
+        footer={
+          <>
+            <button
+              type="button"
+              onClick={handleCloseConfirm}
+              disabled={submitting}
+              className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-gray-700 transition bg-white rounded-lg ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-gray-800 dark:text-gray-400 dark:ring-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleConfirm()}
+              disabled={submitting}
+              className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-white transition rounded-lg bg-brand-500 shadow-theme-xs hover:bg-brand-600 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {submitting ? "Topping up..." : "Confirm top-up"}
+            </button>
+          </>
+        }
+      />
+    </>
+  );
+}
@@ -0,0 +1,115 @@
+import type { ReactNode } from "react";
+import Badge from "../ui/badge/Badge";
+import CopyButton from "../common/CopyButton";
+import TransactionPartyBalance from "./TransactionPartyBalance";
+import TransactionPartyLink from "./TransactionPartyLink";
+import TransactionTimeline from "./TransactionTimeline";
+import { formatDateTime, formatTransactionAmount } from "../../lib/formatters";
+import type { TransactionRow } from "../../lib/reportingApi";
+
+interface TransactionDetailCardProps {
+  transaction: TransactionRow;
+}
+
+const CARD_CLASS =
+  "rounded-2xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-white/[0.03] md:p-6";
+
+function CardTitle({ children }: { children: ReactNode }) {
+  return (
+    <h4 className="mb-4 text-lg font-semibold text-gray-800 dark:text-white/90">
+      {children}
+    </h4>
+  );
+}
+
+function PartyCard({
+  label,
+  children,
+}: {
+  label: string;
+  children: ReactNode;
+}) {
+  return (
+    <div className="flex-1 p-4 rounded-xl bg-gray-50 dark:bg-white/[0.03]">
+      <p className="mb-1 text-xs font-medium text-gray-500 uppercase dark:text-gray-400">
+        {label}
+      </p>
+      <p className="text-base font-medium text-gray-800 dark:text-white/90">
+        {children}
+      </p>
+    </div>
+  );
+}
+
+export default function TransactionDetailCard({
+  transaction,
+}: TransactionDetailCardProps) {
+  return (
+    <div className="space-y-6">
+      <div className={CARD_CLASS}>
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Amount</p>
+            <p
+              className={`mt-1 text-title-sm font-bold ${
+                transaction.type === "DEBIT"
+                  ? "text-error-600 dark:text-error-500"
+                  : "text-success-600 dark:text-success-500"
+              }`}
+            >
+              {formatTransactionAmount(transaction.amount, transaction.type)}
+            </p>
+          </div>
+          <Badge color={transaction.type === "DEBIT" ? "error" : "success"}>
+            {transaction.type}
+          </Badge>
+        </div>
+
+        <dl className="grid grid-cols-1 gap-4 mt-6 sm:grid-cols-2">
+          <div>
+            <dt className="text-xs text-gray-500 dark:text-gray-400">ID</dt>
+            <dd className="flex items-center gap-1 mt-1 font-mono text-sm text-gray-800 break-all dark:text-white/90">
+              {transaction.id}
+              <CopyButton value={transaction.id} label="Copy ID" />
+            </dd>
+          </div>
+          <div>
+            <dt className="text-xs text-gray-500 dark:text-gray-400">Date</dt>
+            <dd className="mt-1 text-sm text-gray-800 dark:text-white/90">
+              {formatDateTime(transaction.createdAt)}
+              <span className="block font-mono text-xs text-gray-500 dark:text-gray-400">
+                {transaction.createdAt}
+              </span>
+            </dd>
+          </div>
+        </dl>
+      </div>
+
+      <div className={CARD_CLASS}>
+        <CardTitle>Parties</CardTitle>
+        <div className="flex flex-col gap-3 sm:flex-row">
+          <PartyCard label="From">
+            <TransactionPartyLink
+              role="from"
+              username={transaction.from_username}
+            />
+          </PartyCard>
+          <PartyCard label="To">
+            <TransactionPartyLink
+              role="to"
+              username={transaction.to_username}
+            />
+          </PartyCard>
+        </div>
+        <div className="mt-4">
+          <TransactionPartyBalance transaction={transaction} />
+        </div>
+      </div>
+
+      <div className={CARD_CLASS}>
+        <CardTitle>Timeline</CardTitle>
+        <TransactionTimeline transaction={transaction} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { useAuth } from "../../context/AuthContext";
+import { useBalance } from "../../hooks/useBalance";
+import { formatAmount } from "../../lib/formatters";
+import type { TransactionRow } from "../../lib/reportingApi";
+
+// Only the signed-in user's own balance can be read, so it is shown when
+// they are one of the parties.
+export default function TransactionPartyBalance({
+  transaction,
+}: {
+  transaction: TransactionRow;
+}) {
+  const { user } = useAuth();
+  const { balance, loading, error } = useBalance();
+
+  const username = user?.username ?? null;
+  const isParty =
+    username !== null &&
+    (username === transaction.from_username ||
+      username === transaction.to_username);
+
+  if (!isParty) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Balances are only available for your own account.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex items-start justify-between gap-4 text-sm">
+      <span className="text-gray-500 dark:text-gray-400">{`${username} (you)`}</span>
+      <span className="text-right text-gray-800 dark:text-white/90">
+        {error
+          ? error
+          : balance !== null
+            ? `Rp${formatAmount(balance)}`
+            : loading
+              ? "Loading..."
+              : "-"}
+      </span>
+    </div>
+  );
+}
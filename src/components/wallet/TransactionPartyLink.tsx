@@ -0,0 +1,29 @@
+import { Link } from "react-router";
+import { getTransactionsLink } from "../../lib/transactionLinks";
+
+interface TransactionPartyLinkProps {
+  role: "from" | "to";
+  // Null for the sender of a top-up.
+  username: string | null;
+  className?: string;
+}
+
+// Opens the transactions list filtered to this party, in the same role.
+export default function TransactionPartyLink({
+  role,
+  username,
+  className = "",
+}: TransactionPartyLinkProps) {
+  if (!username) {
+    return <span className={className}>Top-up</span>;
+  }
+
+  return (
+    <Link
+      to={getTransactionsLink({ [role]: username })}
+      className={`text-brand-500 hover:text-brand-600 dark:text-brand-400 ${className}`}
+    >
+      {username}
+    </Link>
+  );
+}
@@ -0,0 +1,94 @@
+import { Link } from "react-router";
+import { useRelatedTransactions } from "../../hooks/useReporting";
+import { formatDateTime, formatTransactionAmount } from "../../lib/formatters";
+import type { TransactionRow } from "../../lib/reportingApi";
+import { getTransactionLink } from "../../lib/transactionLinks";
+
+interface TransactionTimelineProps {
+  transaction: TransactionRow;
+  // Opens another transaction in place, e.g. in the drawer. Without it the
+  // entries link to the transaction's own page.
+  onOpenTransaction?: (id: string) => void;
+}
+
+const ENTRY_LINK_CLASS =
+  "text-left text-brand-500 hover:text-brand-600 dark:text-brand-400";
+
+function getAmountClass(type: TransactionRow["type"]): string {
+  return type === "DEBIT"
+    ? "text-error-600 dark:text-error-500"
+    : "text-success-600 dark:text-success-500";
+}
+
+// This transaction among the latest ones between the same two users, newest
+// first.
+export default function TransactionTimeline({
+  transaction,
+  onOpenTransaction,
+}: TransactionTimelineProps) {
+  const { data, loading, error } = useRelatedTransactions(transaction);
+
+  const events = [transaction, ...data].sort(
+    (a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt),
+  );
+
+  let note: string | null = null;
+  if (!transaction.from_username) {
+    note = "Top-ups have no counterpart.";
+  } else if (data.length === 0 && !error) {
+    note = loading
+      ? "Loading related transactions..."
+      : "No other transactions between these users.";
+  }
+
+  return (
+    <>
+      {error && <p className="mb-3 text-sm text-error-500">{error}</p>}
+      <ol className="relative ml-2 border-l border-gray-200 dark:border-gray-800">
+        {events.map((event) => {
+          const isCurrent = event.id === transaction.id;
+          const parties = `${event.from_username ?? "Top-up"} → ${event.to_username}`;
+
+          return (
+            <li key={event.id} className="pb-5 pl-5 last:pb-0">
+              <span
+                className={`absolute -left-[5px] mt-1.5 size-2.5 rounded-full ${
+                  isCurrent ? "bg-brand-500" : "bg-gray-300 dark:bg-gray-700"
+                }`}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {formatDateTime(event.createdAt)}
+              </p>
+              <div className="flex flex-wrap items-center gap-2 mt-0.5 text-sm text-gray-700 dark:text-gray-300">
+                {isCurrent ? (
+                  <span className="font-medium">This transaction</span>
+                ) : onOpenTransaction ? (
+                  <button
+                    type="button"
+                    onClick={() => onOpenTransaction(event.id)}
+                    className={ENTRY_LINK_CLASS}
+                  >
+                    {parties}
+                  </button>
+                ) : (
+                  <Link
+                    to={getTransactionLink(event.id)}
+                    className={ENTRY_LINK_CLASS}
+                  >
+                    {parties}
+                  </Link>
+                )}
+                <span className={`font-medium ${getAmountClass(event.type)}`}>
+                  {formatTransactionAmount(event.amount, event.type)}
+                </span>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+      {note && (
+        <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">{note}</p>
+      )}
+    </>
+  );
+}
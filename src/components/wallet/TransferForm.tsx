@@ -0,0 +1,249 @@
+import { useMemo, useRef, useState, type FormEvent } from "react";
+import Label from "../form/Label";
+import Input from "../form/input/InputField";
+import Button from "../ui/button/Button";
+import AppModal from "../ui/modal/AppModal";
+import { useAuth } from "../../context/AuthContext";
+import { useToast } from "../common/ToastProvider";
+import { useBalance } from "../../hooks/useBalance";
+import { useTopUsersLeaderboard } from "../../hooks/useReporting";
+import { mapApiErrorToMessage } from "../../lib/httpClient";
+import { validateAmountInput } from "../../lib/amountValidation";
+import { formatAmount } from "../../lib/formatters";
+import { notifyWalletChanged } from "../../lib/walletEvents";
+import { transfer } from "../../lib/walletApi";
+
+type PendingTransfer = {
+  toUsername: string;
+  amount: number;
+};
+
+type TransferFieldErrors = {
+  recipient?: string;
+  amount?: string;
+};
+
+export default function TransferForm() {
+  const { token, user } = useAuth();
+  const { showToast } = useToast();
+  const { balance, stale: balanceStale } = useBalance();
+  const { data: knownUsers } = useTopUsersLeaderboard();
+
+  const [recipientInput, setRecipientInput] = useState("");
+  const [amountInput, setAmountInput] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<TransferFieldErrors>({});
+  const [pending, setPending] = useState<PendingTransfer | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  // Guards against double submits before the `submitting` state re-renders.
+  const inFlightRef = useRef(false);
+
+  const recipientSuggestions = useMemo(
+    () =>
+      Array.from(new Set(knownUsers.map((row) => row.username))).filter(
+        (username) => username !== user?.username,
+      ),
+    [knownUsers, user?.username],
+  );
+
+  const handleReview = (event: FormEvent<HTMLFormElement>): void => {
+    event.preventDefault();
+
+    const errors: TransferFieldErrors = {};
+    const toUsername = recipientInput.trim();
+
+    if (!toUsername) {
+      errors.recipient = "Recipient username is required.";
+    } else if (toUsername === user?.username) {
+      errors.recipient = "You cannot transfer to your own account.";
+    }
+
+    const amountResult = validateAmountInput(amountInput);
+    if (!amountResult.ok) {
+      errors.amount = amountResult.message;
+    }
+
+    setFieldErrors(errors);
+    if (errors.recipient || !amountResult.ok) {
+      return;
+    }
+
+    setPending({ toUsername, amount: amountResult.amount });
+  };
+
+  const handleCloseReview = () => {
+    if (submitting) return;
+    setPending(null);
+  };
+
+  const handleConfirm = async (): Promise<void> => {
+    if (!pending || inFlightRef.current) return;
+
+    inFlightRef.current = true;
+    setSubmitting(true);
+
+    try {
+      await transfer(pending, token);
+
+      showToast(
+        `Transferred Rp${formatAmount(pending.amount)} to ${pending.toUsername}.`,
+        "success",
+      );
+      notifyWalletChanged();
+      setRecipientInput("");
+      setAmountInput("");
+      setPending(null);
+    } catch (err) {
+      const message = mapApiErrorToMessage(err, {
+        defaultMessage: "Failed to transfer funds. Please try again.",
+        badRequestMessage:
+          "The transfer was rejected. Check that the balance covers the amount.",
+        notFoundMessage: `Recipient "${pending.toUsername}" was not found.`,
+        conflictMessage:
+          "This transfer conflicts with another operation. Refresh the balance and try again.",
+        rateLimitMessage:
+          "Too many requests. Please wait a moment before transferring again.",
+        serverErrorMessage:
+          "Server error while transferring funds. Please try again later.",
+      });
+      showToast(message, "error");
+      setPending(null);
+    } finally {
+      inFlightRef.current = false;
+      setSubmitting(false);
+    }
+  };
+
+  const balanceAfter =
+    pending && balance !== null ? balance - pending.amount : null;
+  const insufficient = balanceAfter !== null && balanceAfter < 0;
+
+  return (
+    <>
+      <form onSubmit={handleReview} className="max-w-md space-y-6">
+        <div>
+          <Label htmlFor="transfer-recipient">
+            Recipient username <span className="text-error-500">*</span>
+          </Label>
+          <input
+            type="text"
+            id="transfer-recipient"
+            name="recipient"
+            list="transfer-recipient-suggestions"
+            placeholder="Enter the recipient's username"
+            autoComplete="off"
+            value={recipientInput}
+            onChange={(event) => {
+              setRecipientInput(event.target.value);
+              if (fieldErrors.recipient) {
+                setFieldErrors((prev) => ({ ...prev, recipient: undefined }));
+              }
+            }}
+            className={`h-11 w-full rounded-lg border appearance-none px-4 py-2.5 text-sm shadow-theme-xs placeholder:text-gray-400 focus:outline-hidden focus:ring-3 bg-transparent text-gray-800 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30 ${
+              fieldErrors.recipient
+                ? "border-error-500 focus:border-error-300 focus:ring-error-500/20 dark:border-error-500"
+                : "border-gray-300 focus:border-brand-300 focus:ring-brand-500/20 dark:border-gray-700 dark:focus:border-brand-800"
+            }`}
+          />
+          <datalist id="transfer-recipient-suggestions">
+            {recipientSuggestions.map((username) => (
+              <option key={username} value={username} />
+            ))}
+          </datalist>
+          {fieldErrors.recipient && (
+            <p className="mt-1.5 text-xs text-error-500">
+              {fieldErrors.recipient}
+            </p>
+          )}
+        </div>
+        <div>
+          <Label htmlFor="transfer-amount">
+            Amount <span className="text-error-500">*</span>
+          </Label>
+          <Input
+            type="text"
+            id="transfer-amount"
+            name="amount"
+            placeholder="e.g. 50000"
+            value={amountInput}
+            autoComplete="off"
+            error={Boolean(fieldErrors.amount)}
+            hint={fieldErrors.amount ?? "Whole rupiah amount to send."}
+            onChange={(event) => {
+              setAmountInput(event.target.value);
+              if (fieldErrors.amount) {
+                setFieldErrors((prev) => ({ ...prev, amount: undefined }));
+              }
+            }}
+          />
+        </div>
+        <Button size="sm" disabled={submitting}>
+          Review transfer
+        </Button>
+      </form>
+
+      <AppModal
+        open={pending !== null}
+        onClose={handleCloseReview}
+        closeOnBackdrop={!submitting}
+        closeOnEsc={!submitting}
+        title="Review transfer"
+        description={
+          pending
+            ? `Send Rp${formatAmount(pending.amount)} to ${pending.toUsername}?`
+            : ""
+        }
+        footer={
+          <>
+            <button
+              type="button"
+              onClick={handleCloseReview}
+              disabled={submitting}
+              className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-gray-700 transition bg-white rounded-lg ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-gray-800 dark:text-gray-400 dark:ring-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleConfirm()}
+              disabled={submitting || insufficient}
+              className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-white transition rounded-lg bg-brand-500 shadow-theme-xs hover:bg-brand-600 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {submitting ? "Transferring..." : "Confirm transfer"}
+            </button>
+          </>
+        }
+      >
+        <dl className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <dt className="text-gray-500 dark:text-gray-400">Balance before</dt>
+            <dd className="font-medium text-gray-800 dark:text-white/90">
+              {balance !== null ? `Rp${formatAmount(balance)}` : "-"}
+            </dd>
+          </div>
+          <div className="flex justify-between">
+            <dt className="text-gray-500 dark:text-gray-400">Balance after</dt>
+            <dd
+              className={`font-medium ${
+                insufficient
+                  ? "text-error-600 dark:text-error-500"
+                  : "text-gray-800 dark:text-white/90"
+              }`}
+            >
+              {balanceAfter !== null ? `Rp${formatAmount(balanceAfter)}` : "-"}
+            </dd>
+          </div>
+        </dl>
+        {insufficient && (
+          <p className="mt-3 text-xs text-error-500">
+            The current balance does not cover this transfer.
+          </p>
+        )}
+        {balanceStale && (
+          <p className="mt-3 text-xs text-warning-600 dark:text-orange-400">
+            The balance shown may be outdated.
+          </p>
+        )}
+      </AppModal>
+    </>
+  );
+}
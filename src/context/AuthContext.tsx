@@ -6,6 +6,7 @@ import {
   loadAuthUser,
   saveAuthSession,
 } from "../lib/authStorage";
+import { clearQueryCache } from "../lib/queryCache";
 
 type AuthUser = AuthUserData | null;
 
@@ -24,6 +25,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<AuthUser>(() => loadAuthUser());
 
   const login = (nextUser: { username: string }, nextToken: string) => {
+    clearQueryCache();
     setUser(nextUser);
     setToken(nextToken);
 
@@ -31,6 +33,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const logout = () => {
+    clearQueryCache();
     setUser(null);
     setToken(null);
 
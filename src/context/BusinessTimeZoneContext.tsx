@@ -0,0 +1,45 @@
+import { createContext, useContext, useState, type ReactNode } from "react";
+import {
+  getBusinessTimeZone,
+  setBusinessTimeZone,
+} from "../lib/businessTimeZone";
+
+type BusinessTimeZoneContextValue = {
+  timeZone: string;
+  setTimeZone: (timeZone: string) => void;
+};
+
+const BusinessTimeZoneContext = createContext<
+  BusinessTimeZoneContextValue | undefined
+>(undefined);
+
+export function BusinessTimeZoneProvider({
+  children,
+}: {
+  children: ReactNode;
+}) {
+  const [timeZone, setTimeZoneState] = useState(() => getBusinessTimeZone());
+
+  const setTimeZone = (nextTimeZone: string) => {
+    setBusinessTimeZone(nextTimeZone);
+    setTimeZoneState(nextTimeZone);
+  };
+
+  return (
+    <BusinessTimeZoneContext.Provider value={{ timeZone, setTimeZone }}>
+      {children}
+    </BusinessTimeZoneContext.Provider>
+  );
+}
+
+export function useBusinessTimeZone() {
+  const context = useContext(BusinessTimeZoneContext);
+
+  if (!context) {
+    throw new Error(
+      "useBusinessTimeZone must be used within a BusinessTimeZoneProvider",
+    );
+  }
+
+  return context;
+}
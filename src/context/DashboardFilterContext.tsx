@@ -0,0 +1,59 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useMemo,
+  useState,
+  type ReactNode,
+} from "react";
+import {
+  DEFAULT_REPORTING_FILTERS,
+  type ReportingFilters,
+} from "../hooks/useReporting";
+
+type DashboardFilterContextValue = {
+  filters: ReportingFilters;
+  setFilters: (patch: Partial<ReportingFilters>) => void;
+  resetFilters: () => void;
+};
+
+const DashboardFilterContext = createContext<
+  DashboardFilterContextValue | undefined
+>(undefined);
+
+export function DashboardFilterProvider({ children }: { children: ReactNode }) {
+  const [filters, setFiltersState] = useState<ReportingFilters>(
+    DEFAULT_REPORTING_FILTERS,
+  );
+
+  const setFilters = useCallback((patch: Partial<ReportingFilters>) => {
+    setFiltersState((prev) => ({ ...prev, ...patch }));
+  }, []);
+
+  const resetFilters = useCallback(() => {
+    setFiltersState(DEFAULT_REPORTING_FILTERS);
+  }, []);
+
+  const value = useMemo(
+    () => ({ filters, setFilters, resetFilters }),
+    [filters, setFilters, resetFilters],
+  );
+
+  return (
+    <DashboardFilterContext.Provider value={value}>
+      {children}
+    </DashboardFilterContext.Provider>
+  );
+}
+
+export function useDashboardFilters() {
+  const context = useContext(DashboardFilterContext);
+
+  if (!context) {
+    throw new Error(
+      "useDashboardFilters must be used within a DashboardFilterProvider",
+    );
+  }
+
+  return context;
+}
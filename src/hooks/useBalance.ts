@@ -0,0 +1,53 @@
+import { ApiError, mapApiErrorToMessage } from "../lib/httpClient";
+import { getBalance } from "../lib/reportingApi";
+import { useAuth } from "../context/AuthContext";
+import { useCachedQuery } from "./useCachedQuery";
+
+type UseBalanceResult = {
+  hasToken: boolean;
+  balance: number | null;
+  loading: boolean;
+  error: string | null;
+  // True when a balance is shown but the latest refresh failed.
+  stale: boolean;
+  lastUpdatedAt: Date | null;
+  refresh: () => void;
+};
+
+const BALANCE_QUERY_KEY = ["wallet", "balance"] as const;
+
+export function useBalance(): UseBalanceResult {
+  const { token } = useAuth();
+  const hasToken = Boolean(token);
+
+  const query = useCachedQuery<number>(
+    token ? BALANCE_QUERY_KEY : null,
+    (signal) => getBalance({ token, signal }),
+  );
+
+  // 401s are left to UnauthorizedHandler.
+  const error =
+    query.error &&
+    !(query.error instanceof ApiError && query.error.status === 401)
+      ? mapApiErrorToMessage(query.error, {
+          defaultMessage: "Failed to load balance.",
+          rateLimitMessage:
+            "Too many requests while loading balance. Please wait a moment and try again.",
+          serverErrorMessage:
+            "Server error while loading balance. Please try again later.",
+        })
+      : null;
+
+  const balance = query.data ?? null;
+  const stale = error !== null && balance !== null;
+
+  return {
+    hasToken,
+    balance,
+    loading: query.isFetching,
+    error,
+    stale,
+    lastUpdatedAt: query.updatedAt !== null ? new Date(query.updatedAt) : null,
+    refresh: query.refresh,
+  };
+}
@@ -0,0 +1,111 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useSyncExternalStore,
+} from "react";
+import {
+  fetchQuery,
+  getQueryState,
+  invalidateQueries,
+  serializeQueryKey,
+  subscribeQuery,
+  type QueryFetcher,
+  type QueryKey,
+  type QueryState,
+} from "../lib/queryCache";
+import { useGlobalLoading } from "../components/common/GlobalLoadingProvider";
+
+const DISABLED_STATE: QueryState<never> = {
+  data: undefined,
+  error: null,
+  updatedAt: null,
+  isFetching: false,
+  isInvalidated: false,
+};
+
+const noopUnsubscribe = () => {};
+
+// Keys are rebuilt from their serialized form so callers can pass inline
+// arrays without memoizing them. `null` disables the query.
+function useStableQueryKey(key: QueryKey | null): QueryKey | null {
+  const hash = key ? serializeQueryKey(key) : null;
+  return useMemo(
+    () => (hash === null ? null : (JSON.parse(hash) as QueryKey)),
+    [hash],
+  );
+}
+
+// Reads the cached state for `key` without fetching it.
+export function useQueryState<T>(key: QueryKey | null): QueryState<T> {
+  const stableKey = useStableQueryKey(key);
+
+  const subscribe = useCallback(
+    (onChange: () => void) =>
+      stableKey ? subscribeQuery(stableKey, onChange) : noopUnsubscribe,
+    [stableKey],
+  );
+  const getSnapshot = useCallback(
+    () =>
+      stableKey
+        ? getQueryState<T>(stableKey)
+        : (DISABLED_STATE as QueryState<T>),
+    [stableKey],
+  );
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+type UseCachedQueryResult<T> = QueryState<T> & {
+  refresh: () => void;
+};
+
+// Serves cached data for `key` immediately and revalidates it on mount and
+// whenever the key changes. Requests for the same key are shared.
+export function useCachedQuery<T>(
+  key: QueryKey | null,
+  fetcher: QueryFetcher<T>,
+): UseCachedQueryResult<T> {
+  const stableKey = useStableQueryKey(key);
+  const state = useQueryState<T>(stableKey);
+  const { startLoading, stopLoading } = useGlobalLoading();
+
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  useEffect(() => {
+    if (!stableKey) return;
+
+    const controller = new AbortController();
+
+    fetchQuery<T>(stableKey, (signal) => fetcherRef.current(signal), {
+      signal: controller.signal,
+    }).catch(() => {
+      // Errors are exposed through the cached state.
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [stableKey]);
+
+  useEffect(() => {
+    if (!state.isFetching) return;
+
+    startLoading();
+    return () => {
+      stopLoading();
+    };
+  }, [state.isFetching, startLoading, stopLoading]);
+
+  const refresh = useCallback(() => {
+    if (stableKey) {
+      invalidateQueries(stableKey);
+    }
+  }, [stableKey]);
+
+  return { ...state, refresh };
+}
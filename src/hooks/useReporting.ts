@@ -1,28 +1,64 @@
-import { useEffect, useState } from "react";
-import { apiRequest, ApiError, mapApiErrorToMessage } from "../lib/httpClient";
-import { API_ENDPOINTS } from "../lib/apiEndpoints";
+import { useState } from "react";
+import { ApiError, mapApiErrorToMessage } from "../lib/httpClient";
+import {
+  getTopTransactionsPerUser,
+  getTopUsers,
+  getTransaction,
+  getTransactionsPage,
+  getTransactionsVolume,
+  type ReportingDateRange,
+  type ReportingRequestOptions,
+  type TopTransactionRow,
+  type TopUserRow,
+  type TransactionRow,
+} from "../lib/reportingApi";
+import {
+  fillEmptyBuckets,
+  getAutoGranularity,
+  getBucketKey,
+  type TimeGranularity,
+} from "../lib/timeBuckets";
+import {
+  DEFAULT_DATE_RANGE,
+  getPreviousRange,
+  resolveDateRange,
+  type DateRangeValue,
+} from "../lib/dateRanges";
 import { useAuth } from "../context/AuthContext";
-import { useGlobalLoading } from "../components/common/GlobalLoadingProvider";
+import { useBusinessTimeZone } from "../context/BusinessTimeZoneContext";
+import { useCachedQuery } from "./useCachedQuery";
 
-type TopTransactionRow = {
-  username: string;
-  amount: number;
+export type TxTypeFilter = "ALL" | "DEBIT" | "CREDIT";
+
+// Filters shared by the dashboard widgets. `username` focuses a widget on
+// one user; widgets that cannot filter by it highlight the user instead.
+export type ReportingFilters = {
+  range: DateRangeValue;
+  typeFilter: TxTypeFilter;
+  username: string | null;
 };
 
-type TopUserRow = {
-  username: string;
-  transacted_value: number;
+export const DEFAULT_REPORTING_FILTERS: ReportingFilters = {
+  range: DEFAULT_DATE_RANGE,
+  typeFilter: "ALL",
+  username: null,
 };
 
-export type RangeKey = "7d" | "30d" | "all";
-export type TxTypeFilter = "ALL" | "DEBIT" | "CREDIT";
+// "auto" derives the granularity from the selected range.
+export type GranularityMode = "auto" | TimeGranularity;
 
+// `credit` and `debit` are absolute sums, `net` is credit minus debit.
 export type VolumePoint = {
-  date: string; // YYYY-MM-DD
-  totalAmount: number;
+  date: string; // bucket key, see lib/timeBuckets
+  credit: number;
+  debit: number;
+  net: number;
   count: number;
 };
 
+// Prefix shared by every reporting query in the cache.
+const REPORTING_QUERY_KEY = "reporting";
+
 type ReportingHookResult<T> = {
   hasToken: boolean;
   data: T[];
@@ -30,409 +66,424 @@ type ReportingHookResult<T> = {
   error: string | null;
 };
 
-type UseTopTransactionsPerUserResult = ReportingHookResult<TopTransactionRow> & {
-  range: RangeKey;
-  setRange: (range: RangeKey) => void;
-};
+// 401s are left to UnauthorizedHandler, so they never show up as an error.
+function getReportingErrorMessage(
+  err: unknown,
+  subject: string,
+): string | null {
+  if (!err) return null;
+
+  if (err instanceof ApiError && err.status === 401) {
+    return null;
+  }
+
+  return mapApiErrorToMessage(err, {
+    defaultMessage: `Failed to load ${subject}.`,
+    rateLimitMessage: `Too many requests while loading ${subject}. Please wait a moment and try again.`,
+    serverErrorMessage: `Server error while loading ${subject}. Please try again later.`,
+  });
+}
 
-export function useTopTransactionsPerUser(): UseTopTransactionsPerUserResult {
+type UseTopTransactionsPerUserResult = ReportingHookResult<TopTransactionRow>;
+
+export function useTopTransactionsPerUser(
+  range: DateRangeValue = DEFAULT_DATE_RANGE,
+): UseTopTransactionsPerUserResult {
   const { token } = useAuth();
   const hasToken = Boolean(token);
-  const { startLoading, stopLoading } = useGlobalLoading();
-
-  const [data, setData] = useState<TopTransactionRow[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [range, setRange] = useState<RangeKey>("30d");
-
-  useEffect(() => {
-    if (!token) {
-      setData([]);
-      setError(null);
-      setLoading(false);
-      return;
-    }
+  const { timeZone } = useBusinessTimeZone();
+
+  const dates = resolveDateRange(range, timeZone);
+  const query = useCachedQuery<TopTransactionRow[]>(
+    token
+      ? [
+          REPORTING_QUERY_KEY,
+          "topTransactionsPerUser",
+          timeZone,
+          dates.dateFrom,
+          dates.dateTo,
+        ]
+      : null,
+    (signal) => getTopTransactionsPerUser(dates, { token, signal }),
+  );
 
-    let cancelled = false;
-
-    const load = async () => {
-      startLoading();
-      setLoading(true);
-      setError(null);
-
-      try {
-        const { dateFrom, dateTo } = getRangeDates(range);
-
-        const params = new URLSearchParams();
-        if (dateFrom) {
-          params.set("dateFrom", dateFrom);
-        }
-        if (dateTo) {
-          params.set("dateTo", dateTo);
-        }
-
-        const path =
-          params.toString().length > 0
-            ? `${API_ENDPOINTS.topTransactionsPerUser}?${params.toString()}`
-            : API_ENDPOINTS.topTransactionsPerUser;
-
-        const response = await apiRequest<TopTransactionRow[]>({
-          path,
-          method: "GET",
-          token,
-          headers: {
-            Accept: "application/json",
-          },
-        });
-
-        if (!cancelled) {
-          setData(Array.isArray(response) ? response : []);
-        }
-      } catch (err) {
-        if (cancelled) {
-          return;
-        }
-
-        if (err instanceof ApiError && err.status === 401) {
-          return;
-        }
-
-        const message = mapApiErrorToMessage(err, {
-          defaultMessage: "Failed to load top transactions.",
-          rateLimitMessage:
-            "Too many requests while loading top transactions. Please wait a moment and try again.",
-          serverErrorMessage:
-            "Server error while loading top transactions. Please try again later.",
-        });
-        setError(message);
-      } finally {
-        if (!cancelled) {
-          setLoading(false);
-        }
-        stopLoading();
-      }
-    };
+  return {
+    hasToken,
+    data: query.data ?? [],
+    loading: query.isFetching,
+    error: getReportingErrorMessage(query.error, "top transactions"),
+  };
+}
+
+export type VolumeSummary = {
+  // Credits plus debits, so two-way traffic does not cancel out.
+  totalAmount: number;
+  netAmount: number;
+  count: number;
+  // Average amount per transaction, 0 when there are none.
+  averageTicket: number;
+};
 
-    void load();
+export function summarizeVolume(points: VolumePoint[]): VolumeSummary {
+  let totalAmount = 0;
+  let netAmount = 0;
+  let count = 0;
 
-    return () => {
-      cancelled = true;
-    };
-  }, [token, range]);
+  for (const point of points) {
+    totalAmount += point.credit + point.debit;
+    netAmount += point.net;
+    count += point.count;
+  }
 
-  return { hasToken, data, loading, error, range, setRange };
+  return {
+    totalAmount,
+    netAmount,
+    count,
+    averageTicket: count > 0 ? totalAmount / count : 0,
+  };
 }
 
 type UseTransactionsVolumeResult = ReportingHookResult<VolumePoint> & {
-  range: RangeKey;
-  setRange: (range: RangeKey) => void;
+  // True when the client-side fallback hit its page cap and data is missing.
+  truncated: boolean;
+  // Buckets of the preceding period of equal length, aligned by index with
+  // `data`. Empty unless comparison is enabled.
+  previousData: VolumePoint[];
+  // False for open-ended ranges, which have no previous period.
+  canCompare: boolean;
+  compare: boolean;
+  setCompare: (compare: boolean) => void;
+  // Granularity actually used for the buckets, after resolving "auto".
+  granularity: TimeGranularity;
+  granularityMode: GranularityMode;
+  setGranularityMode: (mode: GranularityMode) => void;
+};
+
+type TransactionsVolumeData = {
+  points: VolumePoint[];
+  truncated: boolean;
+};
+
+// Set once the backend answers 404/501 for the aggregate endpoint, so later
+// loads go straight to the client-side fallback.
+let volumeEndpointUnavailable = false;
+
+function emptyVolumePoint(date: string): VolumePoint {
+  return { date, credit: 0, debit: 0, net: 0, count: 0 };
+}
+
+type VolumeLoadQuery = {
+  dates: ReportingDateRange;
   typeFilter: TxTypeFilter;
-  setTypeFilter: (filter: TxTypeFilter) => void;
+  username: string | null;
+  granularity: TimeGranularity;
 };
 
-function formatDateForQuery(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
+async function loadTransactionsVolume(
+  query: VolumeLoadQuery,
+  options: ReportingRequestOptions,
+): Promise<TransactionsVolumeData> {
+  const { dates, typeFilter, username, granularity } = query;
+
+  if (!volumeEndpointUnavailable) {
+    try {
+      const buckets = await getTransactionsVolume(
+        {
+          ...dates,
+          granularity,
+          type: typeFilter !== "ALL" ? typeFilter : undefined,
+          username: username ?? undefined,
+        },
+        options,
+      );
+
+      const points = fillEmptyBuckets(
+        buckets.map((bucket) => ({
+          ...bucket,
+          net: bucket.credit - bucket.debit,
+        })),
+        granularity,
+        dates,
+        emptyVolumePoint,
+      );
+      return { points, truncated: false };
+    } catch (err) {
+      const unsupported =
+        err instanceof ApiError && (err.status === 404 || err.status === 501);
+      if (!unsupported) {
+        throw err;
+      }
+      volumeEndpointUnavailable = true;
+    }
+  }
+
+  return aggregateTransactionsVolume(query, options);
 }
 
-function getRangeDates(range: RangeKey): { dateFrom?: string; dateTo?: string } {
-  if (range === "all") {
-    return {};
+// Fallback for backends without the aggregate endpoint: pages through
+// `/transactions` and buckets the rows in the browser. The username focus
+// matches either side of a transaction, so it is applied here rather than
+// through the `from`/`to` query filters.
+async function aggregateTransactionsVolume(
+  { dates, typeFilter, username, granularity }: VolumeLoadQuery,
+  { token, signal }: ReportingRequestOptions,
+): Promise<TransactionsVolumeData> {
+  const { dateFrom, dateTo } = dates;
+  const pageSize = 100;
+  const allRows: TransactionRow[] = [];
+  let recordsFiltered = 0;
+
+  let start = 0;
+  const maxPages = 20; // safety cap to avoid infinite loops
+
+  for (let page = 0; page < maxPages; page += 1) {
+    const response = await getTransactionsPage(
+      {
+        start,
+        length: pageSize,
+        dateFrom,
+        dateTo,
+        type: typeFilter !== "ALL" ? typeFilter : undefined,
+        order: [{ column: 0, dir: "asc" }],
+      },
+      { token, signal },
+    );
+
+    const rows = response.data;
+    allRows.push(...rows);
+    recordsFiltered = response.recordsFiltered;
+
+    if (rows.length < pageSize) {
+      break;
+    }
+
+    start += pageSize;
   }
 
-  const today = new Date();
-  const endToday = new Date(
-    today.getFullYear(),
-    today.getMonth(),
-    today.getDate(),
-  );
+  const buckets = new Map<string, VolumePoint>();
+
+  for (const tx of allRows) {
+    const created = new Date(tx.createdAt);
+    if (Number.isNaN(created.getTime())) continue;
+    if (tx.type !== "CREDIT" && tx.type !== "DEBIT") continue;
+    if (typeFilter !== "ALL" && tx.type !== typeFilter) continue;
+    if (
+      username &&
+      tx.from_username !== username &&
+      tx.to_username !== username
+    ) {
+      continue;
+    }
 
-  const daysBack = range === "7d" ? 6 : 29;
-  const start = new Date(endToday);
-  start.setDate(endToday.getDate() - daysBack);
+    const key = getBucketKey(created, granularity);
+    const bucket = buckets.get(key) ?? emptyVolumePoint(key);
+    const amountAbs = Math.abs(tx.amount);
 
-  // Backend interprets dateTo as a Date and uses `createdAt <= dateTo`.
-  // To include the whole "today" in the range, we send the start of tomorrow
-  // as the upper bound, so all transactions from today (any time) are included.
-  const endExclusive = new Date(endToday);
-  endExclusive.setDate(endExclusive.getDate() + 1);
+    if (tx.type === "CREDIT") {
+      bucket.credit += amountAbs;
+      bucket.net += amountAbs;
+    } else {
+      bucket.debit += amountAbs;
+      bucket.net -= amountAbs;
+    }
+    bucket.count += 1;
 
-  return {
-    dateFrom: formatDateForQuery(start),
-    dateTo: formatDateForQuery(endExclusive),
-  };
+    buckets.set(key, bucket);
+  }
+
+  const points = fillEmptyBuckets(
+    Array.from(buckets.values()),
+    granularity,
+    dates,
+    emptyVolumePoint,
+  );
+
+  return { points, truncated: allRows.length < recordsFiltered };
+}
+
+function getVolumeQueryKey(timeZone: string, query: VolumeLoadQuery) {
+  return [
+    REPORTING_QUERY_KEY,
+    "transactionsVolume",
+    timeZone,
+    query.dates.dateFrom,
+    query.dates.dateTo,
+    query.typeFilter,
+    query.username,
+    query.granularity,
+  ];
 }
 
-export function useTransactionsVolume(): UseTransactionsVolumeResult {
+export function useTransactionsVolume(
+  filters: ReportingFilters = DEFAULT_REPORTING_FILTERS,
+): UseTransactionsVolumeResult {
   const { token } = useAuth();
   const hasToken = Boolean(token);
-  const { startLoading, stopLoading } = useGlobalLoading();
-
-  const [range, setRange] = useState<RangeKey>("30d");
-  const [typeFilter, setTypeFilter] = useState<TxTypeFilter>("ALL");
-  const [data, setData] = useState<VolumePoint[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    if (!token) {
-      setData([]);
-      setError(null);
-      setLoading(false);
-      return;
-    }
+  const { timeZone } = useBusinessTimeZone();
+  const { range, typeFilter, username } = filters;
 
-    let cancelled = false;
-
-    const load = async () => {
-      startLoading();
-      setLoading(true);
-      setError(null);
-
-      try {
-        const { dateFrom, dateTo } = getRangeDates(range);
-
-        const baseParams = new URLSearchParams();
-        baseParams.set("draw", "1");
-        baseParams.set("length", "100");
-        baseParams.set("order[0][column]", "0");
-        baseParams.set("order[0][dir]", "asc");
-
-        if (dateFrom) {
-          baseParams.set("dateFrom", dateFrom);
-        }
-        if (dateTo) {
-          baseParams.set("dateTo", dateTo);
-        }
-
-        if (typeFilter !== "ALL") {
-          baseParams.set("type", typeFilter);
-        }
-
-        const pageSize = 100;
-        const allRows: {
-          id: string;
-          createdAt: string;
-          amount: number;
-          type: string;
-        }[] = [];
-
-        let start = 0;
-        const maxPages = 20; // safety cap to avoid infinite loops
-
-        for (let page = 0; page < maxPages; page += 1) {
-          const params = new URLSearchParams(baseParams);
-          params.set("start", String(start));
-
-          const response = await apiRequest<{
-            data?: {
-              id: string;
-              createdAt: string;
-              amount: number;
-              type: string;
-            }[];
-          }>({
-            path: `${API_ENDPOINTS.transactions}?${params.toString()}`,
-            method: "GET",
-            token,
-            headers: {
-              Accept: "application/json",
-            },
-          });
-
-          if (cancelled) return;
-
-          const rows = Array.isArray(response.data) ? response.data : [];
-          allRows.push(...rows);
-
-          if (rows.length < pageSize) {
-            break;
-          }
-
-          start += pageSize;
-        }
-
-        const buckets = new Map<string, { total: number; count: number }>();
-
-        for (const tx of allRows) {
-          const created = new Date(tx.createdAt);
-          if (Number.isNaN(created.getTime())) continue;
-
-          const key = formatDateForQuery(created);
-          const prev = buckets.get(key) ?? { total: 0, count: 0 };
-
-          const amountAbs = Math.abs(tx.amount);
-          let contribution = 0;
-
-          if (typeFilter === "ALL") {
-            if (tx.type === "CREDIT") {
-              contribution = amountAbs;
-            } else if (tx.type === "DEBIT") {
-              contribution = -amountAbs;
-            } else {
-              continue;
-            }
-          } else if (typeFilter === "DEBIT") {
-            if (tx.type !== "DEBIT") continue;
-            contribution = amountAbs;
-          } else if (typeFilter === "CREDIT") {
-            if (tx.type !== "CREDIT") continue;
-            contribution = amountAbs;
-          } else {
-            contribution = amountAbs;
-          }
-
-          buckets.set(key, {
-            total: prev.total + contribution,
-            count: prev.count + 1,
-          });
-        }
-
-        const sortedDates = Array.from(buckets.keys()).sort();
-
-        const points: VolumePoint[] = sortedDates.map((date) => {
-          const bucket = buckets.get(date)!;
-          return {
-            date,
-            totalAmount: bucket.total,
-            count: bucket.count,
-          };
-        });
-
-        setData(points);
-      } catch (err) {
-        if (cancelled) return;
-
-        if (err instanceof ApiError && err.status === 401) {
-          return;
-        }
-
-        const message = mapApiErrorToMessage(err, {
-          defaultMessage: "Failed to load transactions volume.",
-          rateLimitMessage:
-            "Too many requests while loading transactions volume. Please wait a moment and try again.",
-          serverErrorMessage:
-            "Server error while loading transactions volume. Please try again later.",
-        });
-        setError(message);
-      } finally {
-        if (!cancelled) {
-          setLoading(false);
-        }
-        stopLoading();
-      }
-    };
+  const [granularityMode, setGranularityMode] =
+    useState<GranularityMode>("auto");
+  const [compare, setCompare] = useState(false);
+
+  const dates = resolveDateRange(range, timeZone);
+  const granularity =
+    granularityMode === "auto" ? getAutoGranularity(dates) : granularityMode;
+
+  const currentQuery: VolumeLoadQuery = {
+    dates,
+    typeFilter,
+    username,
+    granularity,
+  };
+  const query = useCachedQuery<TransactionsVolumeData>(
+    token ? getVolumeQueryKey(timeZone, currentQuery) : null,
+    (signal) => loadTransactionsVolume(currentQuery, { token, signal }),
+  );
 
-    void load();
+  // The previous period keeps the current granularity so its buckets line up
+  // one-to-one with the current ones.
+  const previousDates = getPreviousRange(dates);
+  const previousQuery: VolumeLoadQuery | null = previousDates
+    ? { ...currentQuery, dates: previousDates }
+    : null;
+  const previous = useCachedQuery<TransactionsVolumeData>(
+    token && compare && previousQuery
+      ? getVolumeQueryKey(timeZone, previousQuery)
+      : null,
+    (signal) =>
+      loadTransactionsVolume(previousQuery ?? currentQuery, { token, signal }),
+  );
 
-    return () => {
-      cancelled = true;
-    };
-  }, [token, range, typeFilter]);
+  const points = query.data?.points ?? [];
+  const showPrevious = compare && previousQuery !== null;
+  const previousPoints = showPrevious
+    ? (previous.data?.points ?? []).slice(0, points.length)
+    : [];
 
   return {
     hasToken,
-    data,
-    loading,
-    error,
-    range,
-    setRange,
-    typeFilter,
-    setTypeFilter,
+    data: points,
+    truncated:
+      (query.data?.truncated ?? false) ||
+      (showPrevious && (previous.data?.truncated ?? false)),
+    previousData: previousPoints,
+    canCompare: previousQuery !== null,
+    compare,
+    setCompare,
+    loading: query.isFetching || (showPrevious && previous.isFetching),
+    error: getReportingErrorMessage(
+      query.error ?? (showPrevious ? previous.error : null),
+      "transactions volume",
+    ),
+    granularity,
+    granularityMode,
+    setGranularityMode,
   };
 }
 
-type UseTopUsersLeaderboardResult = ReportingHookResult<TopUserRow> & {
-  range: RangeKey;
-  setRange: (range: RangeKey) => void;
+type UseTopUsersLeaderboardResult = ReportingHookResult<TopUserRow>;
+
+export function useTopUsersLeaderboard(
+  range: DateRangeValue = DEFAULT_DATE_RANGE,
+): UseTopUsersLeaderboardResult {
+  const { token } = useAuth();
+  const hasToken = Boolean(token);
+  const { timeZone } = useBusinessTimeZone();
+
+  const dates = resolveDateRange(range, timeZone);
+  const query = useCachedQuery<TopUserRow[]>(
+    token
+      ? [
+          REPORTING_QUERY_KEY,
+          "topUsers",
+          timeZone,
+          dates.dateFrom,
+          dates.dateTo,
+        ]
+      : null,
+    (signal) => getTopUsers(dates, { token, signal }),
+  );
+
+  return {
+    hasToken,
+    data: query.data ?? [],
+    loading: query.isFetching,
+    error: getReportingErrorMessage(query.error, "top users"),
+  };
+}
+
+type UseTransactionResult = {
+  hasToken: boolean;
+  data: TransactionRow | null;
+  loading: boolean;
+  error: string | null;
+  notFound: boolean;
 };
 
-export function useTopUsersLeaderboard(): UseTopUsersLeaderboardResult {
+export function useTransaction(id: string | null): UseTransactionResult {
   const { token } = useAuth();
   const hasToken = Boolean(token);
-  const { startLoading, stopLoading } = useGlobalLoading();
-
-  const [data, setData] = useState<TopUserRow[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [range, setRange] = useState<RangeKey>("30d");
-
-  useEffect(() => {
-    if (!token) {
-      setData([]);
-      setError(null);
-      setLoading(false);
-      return;
-    }
 
-    let cancelled = false;
-
-    const load = async () => {
-      startLoading();
-      setLoading(true);
-      setError(null);
-
-      try {
-        const { dateFrom, dateTo } = getRangeDates(range);
-
-        const params = new URLSearchParams();
-        if (dateFrom) {
-          params.set("dateFrom", dateFrom);
-        }
-        if (dateTo) {
-          params.set("dateTo", dateTo);
-        }
-
-        const path =
-          params.toString().length > 0
-            ? `${API_ENDPOINTS.topUsers}?${params.toString()}`
-            : API_ENDPOINTS.topUsers;
-
-        const response = await apiRequest<TopUserRow[]>({
-          path,
-          method: "GET",
-          token,
-          headers: {
-            Accept: "application/json",
-          },
-        });
-
-        if (!cancelled) {
-          setData(Array.isArray(response) ? response : []);
-        }
-      } catch (err) {
-        if (cancelled) {
-          return;
-        }
-
-        if (err instanceof ApiError && err.status === 401) {
-          return;
-        }
-
-        const message = mapApiErrorToMessage(err, {
-          defaultMessage: "Failed to load top users.",
-          rateLimitMessage:
-            "Too many requests while loading top users. Please wait a moment and try again.",
-          serverErrorMessage:
-            "Server error while loading top users. Please try again later.",
-        });
-        setError(message);
-      } finally {
-        if (!cancelled) {
-          setLoading(false);
-        }
-        stopLoading();
-      }
-    };
+  const query = useCachedQuery<TransactionRow | null>(
+    token && id ? [REPORTING_QUERY_KEY, "transaction", id] : null,
+    (signal) => getTransaction(id ?? "", { token, signal }),
+  );
 
-    void load();
+  return {
+    hasToken,
+    data: query.data ?? null,
+    loading: query.isFetching,
+    error: getReportingErrorMessage(query.error, "the transaction"),
+    notFound: query.data === null,
+  };
+}
+
+const RELATED_TRANSACTIONS_LIMIT = 10;
+
+// The latest transactions between the same two users, in either direction.
+// Top-ups have no counterpart, so they have no related transactions.
+export function useRelatedTransactions(
+  transaction: TransactionRow | null,
+): ReportingHookResult<TransactionRow> {
+  const { token } = useAuth();
+  const hasToken = Boolean(token);
 
-    return () => {
-      cancelled = true;
-    };
-  }, [token, range]);
+  const from = transaction?.from_username ?? null;
+  const to = transaction?.to_username ?? null;
+
+  const query = useCachedQuery<TransactionRow[]>(
+    token && from && to
+      ? [REPORTING_QUERY_KEY, "relatedTransactions", from, to]
+      : null,
+    async (signal) => {
+      if (!from || !to) return [];
+
+      const pageQuery = {
+        start: 0,
+        length: RELATED_TRANSACTIONS_LIMIT + 1,
+        order: [{ column: 0, dir: "desc" as const }],
+      };
+      const [sent, received] = await Promise.all([
+        getTransactionsPage({ ...pageQuery, from, to }, { token, signal }),
+        getTransactionsPage(
+          { ...pageQuery, from: to, to: from },
+          { token, signal },
+        ),
+      ]);
+
+      return [...sent.data, ...received.data].sort(
+        (a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt),
+      );
+    },
+  );
 
-  return { hasToken, data, loading, error, range, setRange };
+  return {
+    hasToken,
+    data: (query.data ?? [])
+      .filter((row) => row.id !== transaction?.id)
+      .slice(0, RELATED_TRANSACTIONS_LIMIT),
+    loading: query.isFetching,
+    error: getReportingErrorMessage(query.error, "related transactions"),
+  };
 }
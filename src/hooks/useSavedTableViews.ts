@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { useAuth } from "../context/AuthContext";
+import {
+  createViewId,
+  loadSavedTableViews,
+  parseSavedTableViews,
+  serializeSavedTableViews,
+  storeSavedTableViews,
+  type SavedTableView,
+  type SavedTableViews,
+  type TableViewState,
+} from "../lib/savedTableViews";
+
+export type UseSavedTableViewsResult = SavedTableViews & {
+  defaultView: SavedTableView | null;
+  // Saving under an existing name replaces that view.
+  saveView: (name: string, state: TableViewState) => SavedTableView;
+  deleteView: (id: string) => void;
+  setDefaultView: (id: string | null) => void;
+  // Merges views from an export; returns how many were imported.
+  importViews: (json: string) => number;
+  exportViews: () => string;
+};
+
+// Saved views for one table, stored per signed-in user. Without a table id
+// nothing is loaded or stored.
+export function useSavedTableViews(tableId?: string): UseSavedTableViewsResult {
+  const { user } = useAuth();
+  const username = user?.username ?? null;
+
+  const [saved, setSaved] = useState<SavedTableViews>(() =>
+    tableId
+      ? loadSavedTableViews(tableId, username)
+      : { views: [], defaultViewId: null },
+  );
+
+  const update = (next: SavedTableViews) => {
+    setSaved(next);
+    if (tableId) {
+      storeSavedTableViews(tableId, username, next);
+    }
+  };
+
+  const saveView = (name: string, state: TableViewState) => {
+    const existing = saved.views.find((view) => view.name === name);
+    const view: SavedTableView = {
+      id: existing?.id ?? createViewId(),
+      name,
+      state,
+    };
+
+    update({
+      ...saved,
+      views: existing
+        ? saved.views.map((item) => (item.id === view.id ? view : item))
+        : [...saved.views, view],
+    });
+    return view;
+  };
+
+  const deleteView = (id: string) => {
+    update({
+      views: saved.views.filter((view) => view.id !== id),
+      defaultViewId: saved.defaultViewId === id ? null : saved.defaultViewId,
+    });
+  };
+
+  const setDefaultView = (id: string | null) => {
+    update({ ...saved, defaultViewId: id });
+  };
+
+  const importViews = (json: string) => {
+    const imported = parseSavedTableViews(json);
+    const importedIds = new Set(imported.views.map((view) => view.id));
+
+    update({
+      views: [
+        ...saved.views.filter((view) => !importedIds.has(view.id)),
+        ...imported.views,
+      ],
+      defaultViewId: saved.defaultViewId ?? imported.defaultViewId,
+    });
+    return imported.views.length;
+  };
+
+  return {
+    ...saved,
+    defaultView:
+      saved.views.find((view) => view.id === saved.defaultViewId) ?? null,
+    saveView,
+    deleteView,
+    setDefaultView,
+    importViews,
+    exportViews: () => serializeSavedTableViews(saved),
+  };
+}
@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { useAuth } from "../context/AuthContext";
+import {
+  DEFAULT_COLUMN_PREFS,
+  loadTableColumnPrefs,
+  MIN_COLUMN_WIDTH,
+  storeTableColumnPrefs,
+  type FilterPlacement,
+  type TableColumnPrefs,
+} from "../lib/tableColumnPrefs";
+
+export type UseTableColumnPrefsResult = TableColumnPrefs & {
+  setColumnOrder: (ids: string[]) => void;
+  setHiddenColumns: (ids: string[]) => void;
+  setColumnVisible: (id: string, visible: boolean) => void;
+  // `null` returns the column to its natural width.
+  setColumnWidth: (id: string, width: number | null) => void;
+  setFilterPlacement: (placement: FilterPlacement) => void;
+  resetColumns: () => void;
+};
+
+// Column order, visibility, widths and filter placement for one table,
+// stored per signed-in user. Without a table id nothing is stored.
+export function useTableColumnPrefs(
+  tableId?: string,
+): UseTableColumnPrefsResult {
+  const { user } = useAuth();
+  const username = user?.username ?? null;
+
+  const [prefs, setPrefs] = useState<TableColumnPrefs>(() =>
+    tableId ? loadTableColumnPrefs(tableId, username) : DEFAULT_COLUMN_PREFS,
+  );
+
+  const update = (next: TableColumnPrefs) => {
+    setPrefs(next);
+    if (tableId) {
+      storeTableColumnPrefs(tableId, username, next);
+    }
+  };
+
+  const setColumnVisible = (id: string, visible: boolean) => {
+    const hidden = prefs.hidden.filter((item) => item !== id);
+    update({ ...prefs, hidden: visible ? hidden : [...hidden, id] });
+  };
+
+  const setColumnWidth = (id: string, width: number | null) => {
+    const widths = { ...prefs.widths };
+    if (width === null) {
+      delete widths[id];
+    } else {
+      widths[id] = Math.max(MIN_COLUMN_WIDTH, Math.round(width));
+    }
+    update({ ...prefs, widths });
+  };
+
+  return {
+    ...prefs,
+    setColumnOrder: (order) => update({ ...prefs, order }),
+    setHiddenColumns: (hidden) => update({ ...prefs, hidden }),
+    setColumnVisible,
+    setColumnWidth,
+    setFilterPlacement: (filterPlacement) =>
+      update({ ...prefs, filterPlacement }),
+    resetColumns: () => update(DEFAULT_COLUMN_PREFS),
+  };
+}
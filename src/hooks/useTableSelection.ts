@@ -0,0 +1,89 @@
+import { useState } from "react";
+
+export type SelectionKey = string | number;
+
+type SelectionState<TData> = {
+  scope: string;
+  // Every row matching the query, except `excluded`.
+  allMatching: boolean;
+  // Rows picked one by one; unused once all matching rows are selected.
+  rows: Map<SelectionKey, TData>;
+  excluded: Set<SelectionKey>;
+};
+
+export type TableSelection<TData> = {
+  allMatching: boolean;
+  // Rows picked one by one, in the order they were picked.
+  selectedRows: TData[];
+  excludedKeys: ReadonlySet<SelectionKey>;
+  isSelected: (key: SelectionKey) => boolean;
+  setSelected: (
+    entries: { key: SelectionKey; row: TData }[],
+    selected: boolean,
+  ) => void;
+  selectAllMatching: () => void;
+  clear: () => void;
+  // Number of selected rows, given how many match the query.
+  getCount: (total: number) => number;
+};
+
+function createSelection<TData>(scope: string): SelectionState<TData> {
+  return { scope, allMatching: false, rows: new Map(), excluded: new Set() };
+}
+
+// Row selection for a paged table. Picked rows are kept across pages;
+// changing `scope` (e.g. the filters and search) starts a new, empty
+// selection, since "all matching" would otherwise change meaning.
+export function useTableSelection<TData>(scope: string): TableSelection<TData> {
+  const [state, setState] = useState<SelectionState<TData>>(() =>
+    createSelection(scope),
+  );
+  const current = state.scope === scope ? state : createSelection<TData>(scope);
+
+  const setSelected = (
+    entries: { key: SelectionKey; row: TData }[],
+    selected: boolean,
+  ) => {
+    setState((prev) => {
+      const base = prev.scope === scope ? prev : createSelection<TData>(scope);
+
+      if (base.allMatching) {
+        const excluded = new Set(base.excluded);
+        for (const { key } of entries) {
+          if (selected) {
+            excluded.delete(key);
+          } else {
+            excluded.add(key);
+          }
+        }
+        return { ...base, excluded };
+      }
+
+      const rows = new Map(base.rows);
+      for (const { key, row } of entries) {
+        if (selected) {
+          rows.set(key, row);
+        } else {
+          rows.delete(key);
+        }
+      }
+      return { ...base, rows };
+    });
+  };
+
+  return {
+    allMatching: current.allMatching,
+    selectedRows: [...current.rows.values()],
+    excludedKeys: current.excluded,
+    isSelected: (key) =>
+      current.allMatching ? !current.excluded.has(key) : current.rows.has(key),
+    setSelected,
+    selectAllMatching: () =>
+      setState({ ...createSelection<TData>(scope), allMatching: true }),
+    clear: () => setState(createSelection<TData>(scope)),
+    getCount: (total) =>
+      current.allMatching
+        ? Math.max(0, total - current.excluded.size)
+        : current.rows.size,
+  };
+}
@@ -0,0 +1,31 @@
+import { useState } from "react";
+import type { ReportingFilters } from "./useReporting";
+import { useDashboardFilters } from "../context/DashboardFilterContext";
+
+type UseWidgetFiltersResult = {
+  filters: ReportingFilters;
+  // True while the widget follows the dashboard filter bar.
+  linked: boolean;
+  // Changes the widget's own filters. Ignored while linked: the widget must
+  // be unlinked explicitly first.
+  setLocalFilters: (patch: Partial<ReportingFilters>) => void;
+  link: () => void;
+  unlink: () => void;
+};
+
+export function useWidgetFilters(): UseWidgetFiltersResult {
+  const { filters: dashboardFilters } = useDashboardFilters();
+  const [override, setOverride] = useState<ReportingFilters | null>(null);
+
+  const setLocalFilters = (patch: Partial<ReportingFilters>) => {
+    setOverride((prev) => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  return {
+    filters: override ?? dashboardFilters,
+    linked: override === null,
+    setLocalFilters,
+    link: () => setOverride(null),
+    unlink: () => setOverride((prev) => prev ?? dashboardFilters),
+  };
+}
@@ -9,6 +9,9 @@ import {
   // TableIcon,
   // UserCircleIcon,
   DollarLineIcon,
+  PlusIcon,
+  PaperPlaneIcon,
+  TimeIcon,
 } from "../icons";
 
 export type NavItem = {
@@ -29,6 +32,21 @@ export const navItems: NavItem[] = [
     name: "Transactions",
     path: "/transactions",
   },
+  {
+    icon: <PlusIcon />,
+    name: "Top Up",
+    path: "/topup",
+  },
+  {
+    icon: <PaperPlaneIcon />,
+    name: "Transfer",
+    path: "/transfer",
+  },
+  {
+    icon: <TimeIcon />,
+    name: "Settings",
+    path: "/settings",
+  },
   // {
   //   icon: <CalenderIcon />,
   //   name: "Calendar",
@@ -57,4 +75,4 @@ export const navItems: NavItem[] = [
   //     { name: "404 Error", path: "/error-404", pro: false },
   //   ],
   // },
-];
\ No newline at end of file
+];
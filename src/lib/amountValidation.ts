@@ -0,0 +1,36 @@
+const WHOLE_RUPIAH_GROUPED = /^\d{1,3}(\.\d{3})*$/;
+
+export type AmountValidationResult =
+  | { ok: true; amount: number }
+  | { ok: false; message: string };
+
+export function validateAmountInput(raw: string): AmountValidationResult {
+  const trimmed = raw.trim();
+
+  if (!trimmed) {
+    return { ok: false, message: "Amount is required." };
+  }
+
+  // Plain digits, or id-ID thousands groups ("1.000.000"). Anything else,
+  // e.g. "12.5" or "10,50", is rejected rather than read as a larger amount.
+  if (!/^\d+$/.test(trimmed) && !WHOLE_RUPIAH_GROUPED.test(trimmed)) {
+    return {
+      ok: false,
+      message: "Enter whole rupiah only, e.g. 50000 or 50.000.",
+    };
+  }
+
+  const amount = Number(trimmed.replace(/\./g, ""));
+
+  if (amount <= 0) {
+    return { ok: false, message: "Amount must be greater than 0." };
+  }
+
+  // Only guards against numbers JavaScript cannot represent exactly; the
+  // server enforces the real limits and its 400 is shown to the user.
+  if (!Number.isSafeInteger(amount)) {
+    return { ok: false, message: "Amount is too large." };
+  }
+
+  return { ok: true, amount };
+}
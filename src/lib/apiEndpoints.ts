@@ -6,7 +6,8 @@ export const API_ENDPOINTS = {
   topTransactionsPerUser: "/top_transactions_per_user",
   topUsers: "/top_users",
   transactions: "/transactions",
+  transactionsVolume: "/transactions/volume",
   transfer: "/transfer",
 } as const;
 
-export type ApiEndpointKey = keyof typeof API_ENDPOINTS;
\ No newline at end of file
+export type ApiEndpointKey = keyof typeof API_ENDPOINTS;
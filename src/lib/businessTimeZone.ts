@@ -0,0 +1,156 @@
+// The "business timezone" decides where days start for range boundaries,
+// query dates, chart buckets and displayed timestamps, independently of the
+// browser's own timezone.
+
+const TIME_ZONE_KEY = "businessTimeZone";
+
+export const DEFAULT_BUSINESS_TIME_ZONE = "Asia/Jakarta";
+
+export type ZonedParts = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number; // 0-23
+  minute: number;
+};
+
+let currentTimeZone: string | null = null;
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function getBusinessTimeZone(): string {
+  if (currentTimeZone) return currentTimeZone;
+
+  const stored =
+    typeof window !== "undefined" ? localStorage.getItem(TIME_ZONE_KEY) : null;
+  currentTimeZone =
+    stored && isValidTimeZone(stored) ? stored : DEFAULT_BUSINESS_TIME_ZONE;
+
+  return currentTimeZone;
+}
+
+export function setBusinessTimeZone(timeZone: string): void {
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone: ${timeZone}`);
+  }
+
+  currentTimeZone = timeZone;
+
+  if (typeof window !== "undefined") {
+    localStorage.setItem(TIME_ZONE_KEY, timeZone);
+  }
+}
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      hourCycle: "h23",
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function getZonedParts(
+  date: Date,
+  timeZone: string = getBusinessTimeZone(),
+): ZonedParts {
+  const parts = getPartsFormatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour") % 24,
+    minute: get("minute"),
+  };
+}
+
+// Difference between wall-clock time in `timeZone` and UTC at `date`.
+function getOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  const utc = Math.floor(date.getTime() / 60_000) * 60_000;
+  return wallClock - utc;
+}
+
+// Converts a wall-clock time in `timeZone` to the matching instant. The
+// offset is re-evaluated once so DST transitions resolve correctly.
+export function zonedTimeToInstant(
+  year: number,
+  month: number,
+  day: number,
+  hour: number = 0,
+  timeZone: string = getBusinessTimeZone(),
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour);
+  const guess = wallClock - getOffsetMs(new Date(wallClock), timeZone);
+  return new Date(wallClock - getOffsetMs(new Date(guess), timeZone));
+}
+
+// Today's calendar date in the business timezone as YYYY-MM-DD.
+export function getBusinessToday(
+  timeZone: string = getBusinessTimeZone(),
+): string {
+  const { year, month, day } = getZonedParts(new Date(), timeZone);
+  return [
+    String(year),
+    String(month).padStart(2, "0"),
+    String(day).padStart(2, "0"),
+  ].join("-");
+}
+
+// Turns a YYYY-MM-DD business date into the ISO instant of its midnight, so
+// the backend filters on the same day boundaries the dashboard shows.
+export function businessDateToInstant(
+  date: string,
+  timeZone: string = getBusinessTimeZone(),
+): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) return date;
+
+  const [, year, month, day] = match;
+  return zonedTimeToInstant(
+    Number(year),
+    Number(month),
+    Number(day),
+    0,
+    timeZone,
+  ).toISOString();
+}
+
+// Shifts a YYYY-MM-DD calendar date by whole days.
+export function addDaysToDate(date: string, days: number): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) return date;
+
+  const [, year, month, day] = match;
+  const shifted = new Date(
+    Date.UTC(Number(year), Number(month) - 1, Number(day) + days),
+  );
+  return shifted.toISOString().slice(0, 10);
+}
@@ -0,0 +1,67 @@
+import { array, number, object, type Decoder } from "./decoders";
+
+// One sort key; `column` is the index of the column in the table definition.
+export type DataTablesOrder = {
+  column: number;
+  dir: "asc" | "desc";
+};
+
+export interface DataTablesQueryOptions {
+  start: number;
+  length: number;
+  search?: string;
+  // Sort keys by priority, sent as order[0], order[1], ...
+  order?: DataTablesOrder[];
+  extraFilters?: Record<string, string | number | null | undefined>;
+}
+
+export function buildDataTablesQueryParams({
+  start,
+  length,
+  search,
+  order,
+  extraFilters,
+}: DataTablesQueryOptions): URLSearchParams {
+  const params = new URLSearchParams();
+
+  params.set("draw", "1");
+  params.set("start", String(start));
+  params.set("length", String(length));
+
+  const trimmedSearch = search?.trim();
+  if (trimmedSearch) {
+    params.set("search[value]", trimmedSearch);
+  }
+
+  if (extraFilters) {
+    for (const [key, value] of Object.entries(extraFilters)) {
+      if (value === null || value === undefined) continue;
+      const str = String(value).trim();
+      if (!str) continue;
+      params.set(key, str);
+    }
+  }
+
+  order?.forEach(({ column, dir }, index) => {
+    params.set(`order[${index}][column]`, String(column));
+    params.set(`order[${index}][dir]`, dir);
+  });
+
+  return params;
+}
+
+export interface DataTablesApiResponse<TData> {
+  data?: TData[];
+  recordsTotal?: number;
+  recordsFiltered?: number;
+}
+
+export function dataTablesResponseDecoder<TData>(
+  row: Decoder<TData>,
+): Decoder<Required<DataTablesApiResponse<TData>>> {
+  return object({
+    data: array(row),
+    recordsTotal: number,
+    recordsFiltered: number,
+  });
+}
@@ -0,0 +1,127 @@
+import { addDaysToDate, getBusinessToday } from "./businessTimeZone";
+import type { ReportingDateRange } from "./reportingApi";
+
+export type RangeKey =
+  | "today"
+  | "7d"
+  | "30d"
+  | "mtd"
+  | "qtd"
+  | "ytd"
+  | "all"
+  | "custom";
+
+// `from` and `to` are inclusive YYYY-MM-DD business dates and are only used
+// by custom ranges.
+export type DateRangeValue = {
+  key: RangeKey;
+  from?: string;
+  to?: string;
+};
+
+export const DEFAULT_DATE_RANGE: DateRangeValue = { key: "30d" };
+
+export const DATE_RANGE_PRESETS: {
+  key: Exclude<RangeKey, "custom">;
+  label: string;
+}[] = [
+  { key: "today", label: "Today" },
+  { key: "7d", label: "7D" },
+  { key: "30d", label: "30D" },
+  { key: "mtd", label: "MTD" },
+  { key: "qtd", label: "QTD" },
+  { key: "ytd", label: "YTD" },
+  { key: "all", label: "All" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+function getPeriodStart(today: string, key: "mtd" | "qtd" | "ytd"): string {
+  const [year, month] = today.split("-").map(Number);
+
+  if (key === "ytd") {
+    return `${year}-01-01`;
+  }
+
+  const startMonth =
+    key === "qtd" ? Math.floor((month - 1) / 3) * 3 + 1 : month;
+  return `${year}-${String(startMonth).padStart(2, "0")}-01`;
+}
+
+// Resolves a range selection to query dates in the business timezone.
+// Backend interprets dateTo as a Date and uses `createdAt <= dateTo`, so the
+// upper bound is the start of the day after the last included day.
+export function resolveDateRange(
+  value: DateRangeValue,
+  timeZone: string,
+): ReportingDateRange {
+  const today = getBusinessToday(timeZone);
+  const tomorrow = addDaysToDate(today, 1);
+
+  switch (value.key) {
+    case "all":
+      return {};
+    case "today":
+      return { dateFrom: today, dateTo: tomorrow };
+    case "7d":
+      return { dateFrom: addDaysToDate(today, -6), dateTo: tomorrow };
+    case "30d":
+      return { dateFrom: addDaysToDate(today, -29), dateTo: tomorrow };
+    case "mtd":
+    case "qtd":
+    case "ytd":
+      return { dateFrom: getPeriodStart(today, value.key), dateTo: tomorrow };
+    case "custom":
+      return {
+        dateFrom: value.from,
+        dateTo: value.to ? addDaysToDate(value.to, 1) : undefined,
+      };
+  }
+}
+
+// The range of equal length that ends where `range` starts, or null when the
+// range is open-ended.
+export function getPreviousRange(
+  range: ReportingDateRange,
+): ReportingDateRange | null {
+  if (!range.dateFrom || !range.dateTo) {
+    return null;
+  }
+
+  const length = daysBetween(range.dateFrom, range.dateTo);
+  return {
+    dateFrom: addDaysToDate(range.dateFrom, -length),
+    dateTo: range.dateFrom,
+  };
+}
+
+// Turns resolved query dates back into an inclusive custom selection.
+export function toCustomDateRange(range: ReportingDateRange): DateRangeValue {
+  return {
+    key: "custom",
+    from: range.dateFrom,
+    to: range.dateTo ? addDaysToDate(range.dateTo, -1) : undefined,
+  };
+}
+
+const labelFormatter = new Intl.DateTimeFormat("en-GB", {
+  day: "numeric",
+  month: "short",
+  year: "numeric",
+  timeZone: "UTC",
+});
+
+export function formatDateRangeLabel(range: ReportingDateRange): string {
+  if (!range.dateFrom || !range.dateTo) {
+    return "All time";
+  }
+
+  const from = labelFormatter.format(new Date(range.dateFrom));
+  const to = labelFormatter.format(new Date(addDaysToDate(range.dateTo, -1)));
+
+  return from === to ? from : `${from} – ${to}`;
+}
@@ -0,0 +1,105 @@
+// Minimal runtime decoders for API payloads. A decoder either returns a
+// well-typed value or throws a DecodeError pointing at the offending field.
+
+export class DecodeError extends Error {
+  path: string;
+  expected: string;
+
+  constructor(path: string, expected: string, received: unknown) {
+    super(`Expected ${expected} at ${path}, received ${describe(received)}`);
+    this.path = path;
+    this.expected = expected;
+  }
+}
+
+export type Decoder<T> = (value: unknown, path?: string) => T;
+
+export type DecodedType<D> = D extends Decoder<infer T> ? T : never;
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export const string: Decoder<string> = (value, path = "$") => {
+  if (typeof value !== "string") {
+    throw new DecodeError(path, "string", value);
+  }
+  return value;
+};
+
+export const number: Decoder<number> = (value, path = "$") => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new DecodeError(path, "finite number", value);
+  }
+  return value;
+};
+
+export function literal<const L extends readonly (string | number)[]>(
+  ...values: L
+): Decoder<L[number]> {
+  return (value, path = "$") => {
+    if (!values.includes(value as L[number])) {
+      throw new DecodeError(
+        path,
+        values.map((v) => JSON.stringify(v)).join(" | "),
+        value,
+      );
+    }
+    return value as L[number];
+  };
+}
+
+export function nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+  return (value, path = "$") => (value === null ? null : decoder(value, path));
+}
+
+export function optional<T>(decoder: Decoder<T>): Decoder<T | undefined> {
+  return (value, path = "$") =>
+    value === undefined ? undefined : decoder(value, path);
+}
+
+export function array<T>(item: Decoder<T>): Decoder<T[]> {
+  return (value, path = "$") => {
+    if (!Array.isArray(value)) {
+      throw new DecodeError(path, "array", value);
+    }
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  };
+}
+
+export function object<S extends Record<string, Decoder<unknown>>>(
+  shape: S,
+): Decoder<{ [K in keyof S]: DecodedType<S[K]> }> {
+  return (value, path = "$") => {
+    if (!isRecord(value)) {
+      throw new DecodeError(path, "object", value);
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, decoder] of Object.entries(shape)) {
+      result[key] = decoder(value[key], `${path}.${key}`);
+    }
+
+    return result as { [K in keyof S]: DecodedType<S[K]> };
+  };
+}
+
+export function record<T>(item: Decoder<T>): Decoder<Record<string, T>> {
+  return (value, path = "$") => {
+    if (!isRecord(value)) {
+      throw new DecodeError(path, "object", value);
+    }
+
+    const result: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = item(entry, `${path}.${key}`);
+    }
+    return result;
+  };
+}
@@ -1,3 +1,5 @@
+import { getBusinessTimeZone } from "./businessTimeZone";
+
 export function formatAmount(value: number, locale: string = "id-ID"): string {
   if (!Number.isFinite(value)) {
     return "";
@@ -8,10 +10,19 @@ export function formatAmount(value: number, locale: string = "id-ID"): string {
   }).format(value);
 }
 
+// Debits carry a minus sign after the currency, e.g. "Rp-10.000".
+export function formatTransactionAmount(
+  amount: number,
+  type: "CREDIT" | "DEBIT",
+): string {
+  const formatted = formatAmount(amount);
+  return type === "DEBIT" ? `Rp-${formatted}` : `Rp${formatted}`;
+}
+
 export function formatDateTime(
   input: string | Date,
   locale: string = "id-ID",
-  timeZone: string = "Asia/Jakarta",
+  timeZone: string = getBusinessTimeZone(),
 ): string {
   const date = typeof input === "string" ? new Date(input) : input;
 
@@ -31,7 +42,8 @@ export function formatDateTime(
     });
 
     const parts = fmt.formatToParts(d);
-    const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+    const get = (type: string) =>
+      parts.find((p) => p.type === type)?.value ?? "";
 
     return {
       year: get("year"),
@@ -1,15 +1,62 @@
 import ky from "ky";
+import {
+  acquireIdempotencyKey,
+  releaseIdempotencyKey,
+} from "./idempotencyStorage";
+import { DecodeError, type Decoder } from "./decoders";
 
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:3000";
+const API_BASE_URL =
+  import.meta.env.VITE_API_BASE_URL ?? "http://localhost:3000";
 
 export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
 
-export interface ApiRequestOptions {
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+export interface IdempotencyOptions {
+  // Identifies the logical operation. Requests sharing a scope reuse the same
+  // key until one of them settles. Defaults to method + path + body.
+  scope?: string;
+}
+
+export interface ApiRequestOptions<T = unknown> {
   path: string;
   method?: HttpMethod;
   body?: unknown;
   token?: string | null;
   headers?: Record<string, string>;
+  idempotency?: boolean | IdempotencyOptions;
+  // Validates the JSON payload; without it the body is trusted as `T`.
+  decoder?: Decoder<T>;
+  // Pass `false` to disable automatic retries for this request.
+  retry?: RetryPolicy | false;
+  // Aborts the request and any pending retry delay.
+  signal?: AbortSignal;
+}
+
+export interface RetryPolicy {
+  // Total attempts including the first one.
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Randomizes each delay between 0 and the backoff ("full jitter").
+  jitter?: boolean;
+  retryOnStatuses?: number[];
+  // A `Retry-After` longer than this gives up instead of waiting.
+  maxRetryAfterMs?: number;
+  // Non-idempotent methods are only retried when this is set or the request
+  // carries an idempotency key.
+  retryNonIdempotent?: boolean;
+}
+
+export interface RetryEvent {
+  phase: "scheduled" | "settled";
+  method: HttpMethod;
+  path: string;
+  // Attempt number about to run (for "scheduled") or that ran last.
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  status?: number;
 }
 
 export interface ApiErrorDetails {
@@ -31,11 +78,38 @@ export class ApiError extends Error {
   }
 }
 
+export interface ApiResponseValidationDetails extends ApiErrorDetails {
+  endpoint: string;
+  path: string;
+  expected: string;
+}
+
+// Thrown when a successful response does not match the expected contract.
+export class ApiResponseValidationError extends ApiError {
+  endpoint: string;
+  // JSON path of the failing value, e.g. `$.data[3].amount`.
+  path: string;
+  // Name of the failing field, e.g. `amount`.
+  field: string;
+  expected: string;
+
+  constructor(message: string, details: ApiResponseValidationDetails) {
+    super(message, details);
+    this.endpoint = details.endpoint;
+    this.path = details.path;
+    this.expected = details.expected;
+
+    const match = /(?:\.([^.[\]]+)|\[(\d+)\])$/.exec(details.path);
+    this.field = match ? (match[1] ?? match[2]) : details.path;
+  }
+}
+
 export interface ApiErrorMessageOptions {
   defaultMessage: string;
   unauthorizedMessage?: string;
   badRequestMessage?: string;
   notFoundMessage?: string;
+  conflictMessage?: string;
   rateLimitMessage?: string;
   serverErrorMessage?: string;
 }
@@ -49,6 +123,7 @@ export function mapApiErrorToMessage(
     unauthorizedMessage,
     badRequestMessage,
     notFoundMessage,
+    conflictMessage,
     rateLimitMessage,
     serverErrorMessage,
   } = options;
@@ -69,6 +144,10 @@ export function mapApiErrorToMessage(
     return notFoundMessage;
   }
 
+  if (err.status === 409 && conflictMessage) {
+    return conflictMessage;
+  }
+
   if (err.status === 429 && rateLimitMessage) {
     return rateLimitMessage;
   }
@@ -81,15 +160,148 @@ export function mapApiErrorToMessage(
 }
 
 let unauthorizedHandler: (() => void) | null = null;
+let retryHandler: ((event: RetryEvent) => void) | null = null;
+
+// Retries are handled by apiRequest so that they can be observed and tuned.
+const apiClient = ky.create({ throwHttpErrors: false, retry: 0 });
 
-const apiClient = ky.create({ throwHttpErrors: false });
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  jitter: true,
+  retryOnStatuses: [408, 429, 500, 502, 503, 504],
+  maxRetryAfterMs: 30000,
+  retryNonIdempotent: false,
+};
+
+const IDEMPOTENT_METHODS: readonly HttpMethod[] = ["GET", "PUT", "DELETE"];
 
 export function registerUnauthorizedHandler(handler: (() => void) | null) {
   unauthorizedHandler = handler;
 }
 
-export async function apiRequest<T>(options: ApiRequestOptions): Promise<T> {
-  const { path, method = "GET", body, token, headers = {} } = options;
+export function registerRetryHandler(
+  handler: ((event: RetryEvent) => void) | null,
+) {
+  retryHandler = handler;
+}
+
+function notifyRetry(event: RetryEvent) {
+  if (!retryHandler) return;
+  try {
+    retryHandler(event);
+  } catch {
+    // ignore handler errors
+  }
+}
+
+function resolveRetryPolicy<T>(
+  options: ApiRequestOptions<T>,
+): Required<RetryPolicy> | null {
+  const { retry, method = "GET", idempotency } = options;
+
+  if (retry === false) {
+    return null;
+  }
+
+  const policy = { ...DEFAULT_RETRY_POLICY, ...retry };
+
+  const safeToRepeat =
+    IDEMPOTENT_METHODS.includes(method) ||
+    Boolean(idempotency) ||
+    policy.retryNonIdempotent;
+
+  return safeToRepeat && policy.maxAttempts > 1 ? policy : null;
+}
+
+function getBackoffDelay(
+  policy: Required<RetryPolicy>,
+  attempt: number,
+): number {
+  const exponential = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1),
+  );
+  return policy.jitter ? Math.round(Math.random() * exponential) : exponential;
+}
+
+// Retry-After is either a number of seconds or an HTTP date.
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return null;
+
+  return Math.max(0, date - Date.now());
+}
+
+export function createAbortError(): DOMException {
+  return new DOMException("The request was aborted.", "AbortError");
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof Error && err.name === "AbortError";
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const handleAbort = () => {
+      window.clearTimeout(timeoutId);
+      reject(createAbortError());
+    };
+
+    const timeoutId = window.setTimeout(() => {
+      signal?.removeEventListener("abort", handleAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", handleAbort, { once: true });
+  });
+}
+
+function getIdempotencyScope<T>(options: ApiRequestOptions<T>): string | null {
+  const { idempotency, path, method = "GET", body } = options;
+
+  if (!idempotency) {
+    return null;
+  }
+
+  if (typeof idempotency === "object" && idempotency.scope) {
+    return idempotency.scope;
+  }
+
+  return `${method} ${path} ${body != null ? JSON.stringify(body) : ""}`;
+}
+
+// The outcome of these statuses is unknown or transient, so the key must be
+// kept for the next attempt of the same operation. A 409 is a final
+// rejection: keeping its key would make the server replay it when the user
+// retries after fixing the cause.
+function isIdempotencyOutcomePending(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+export async function apiRequest<T>(options: ApiRequestOptions<T>): Promise<T> {
+  const {
+    path,
+    method = "GET",
+    body,
+    token,
+    headers = {},
+    decoder,
+    signal,
+  } = options;
 
   const url = new URL(path, API_BASE_URL);
 
@@ -104,11 +316,114 @@ export async function apiRequest<T>(options: ApiRequestOptions): Promise<T> {
       : `Bearer ${token}`;
   }
 
-  const response = await apiClient(url.toString(), {
-    method,
-    headers: finalHeaders,
-    json: body != null ? body : undefined,
-  });
+  const idempotencyScope = getIdempotencyScope(options);
+  if (idempotencyScope) {
+    finalHeaders[IDEMPOTENCY_KEY_HEADER] =
+      acquireIdempotencyKey(idempotencyScope);
+  }
+
+  const policy = resolveRetryPolicy(options);
+  let attempt = 1;
+  let lastDelayMs = 0;
+
+  try {
+    for (;;) {
+      let response: Response;
+
+      try {
+        // Network failures leave the key pending so that a retry reuses it.
+        response = await apiClient(url.toString(), {
+          method,
+          headers: finalHeaders,
+          json: body != null ? body : undefined,
+          signal,
+        });
+      } catch (err) {
+        if (isAbortError(err) || !policy || attempt >= policy.maxAttempts) {
+          throw err;
+        }
+
+        lastDelayMs = getBackoffDelay(policy, attempt);
+        attempt += 1;
+        notifyRetry({
+          phase: "scheduled",
+          method,
+          path,
+          attempt,
+          maxAttempts: policy.maxAttempts,
+          delayMs: lastDelayMs,
+        });
+        await sleep(lastDelayMs, signal);
+        continue;
+      }
+
+      if (
+        policy &&
+        attempt < policy.maxAttempts &&
+        policy.retryOnStatuses.includes(response.status)
+      ) {
+        const retryAfterMs = parseRetryAfter(
+          response.headers.get("Retry-After"),
+        );
+
+        if (retryAfterMs === null || retryAfterMs <= policy.maxRetryAfterMs) {
+          lastDelayMs = Math.max(
+            retryAfterMs ?? 0,
+            getBackoffDelay(policy, attempt),
+          );
+          attempt += 1;
+          notifyRetry({
+            phase: "scheduled",
+            method,
+            path,
+            attempt,
+            maxAttempts: policy.maxAttempts,
+            delayMs: lastDelayMs,
+            status: response.status,
+          });
+          await sleep(lastDelayMs, signal);
+          continue;
+        }
+      }
+
+      return await handleResponse(response, {
+        url,
+        token,
+        decoder,
+        idempotencyScope,
+      });
+    }
+  } finally {
+    if (policy && attempt > 1) {
+      notifyRetry({
+        phase: "settled",
+        method,
+        path,
+        attempt,
+        maxAttempts: policy.maxAttempts,
+        delayMs: lastDelayMs,
+      });
+    }
+  }
+}
+
+async function handleResponse<T>(
+  response: Response,
+  {
+    url,
+    token,
+    decoder,
+    idempotencyScope,
+  }: {
+    url: URL;
+    token?: string | null;
+    decoder?: Decoder<T>;
+    idempotencyScope: string | null;
+  },
+): Promise<T> {
+  if (idempotencyScope && !isIdempotencyOutcomePending(response.status)) {
+    releaseIdempotencyKey(idempotencyScope);
+  }
 
   if (!response.ok) {
     const bodyText = await response.text().catch(() => undefined);
@@ -132,11 +447,35 @@ export async function apiRequest<T>(options: ApiRequestOptions): Promise<T> {
     return undefined as T;
   }
 
-  const data = (await response.json().catch(() => undefined)) as T | undefined;
-  return data as T;
+  const data: unknown = await response.json().catch(() => undefined);
+
+  if (!decoder) {
+    return data as T;
+  }
+
+  try {
+    return decoder(data);
+  } catch (err) {
+    if (!(err instanceof DecodeError)) {
+      throw err;
+    }
+
+    throw new ApiResponseValidationError(
+      `Unexpected response from ${url.pathname}: ${err.message}`,
+      {
+        status: response.status,
+        statusText: response.statusText,
+        endpoint: url.pathname,
+        path: err.path,
+        expected: err.expected,
+      },
+    );
+  }
 }
 
-export function buildAuthHeader(token: string | null | undefined): string | undefined {
+export function buildAuthHeader(
+  token: string | null | undefined,
+): string | undefined {
   if (!token) {
     return undefined;
   }
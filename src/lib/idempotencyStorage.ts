@@ -0,0 +1,85 @@
+type PendingIdempotencyKey = {
+  key: string;
+  createdAt: number;
+};
+
+const PENDING_KEYS_KEY = "pendingIdempotencyKeys";
+
+// Keys older than this are dropped; the backend will have expired them too.
+const PENDING_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+function generateIdempotencyKey(): string {
+  // randomUUID is only available in secure contexts (HTTPS or localhost).
+  if (typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function loadPendingKeys(): Record<string, PendingIdempotencyKey> {
+  const stored = sessionStorage.getItem(PENDING_KEYS_KEY);
+  if (!stored) return {};
+
+  try {
+    const parsed = JSON.parse(stored) as Record<string, PendingIdempotencyKey>;
+    const now = Date.now();
+    const fresh: Record<string, PendingIdempotencyKey> = {};
+
+    for (const [scope, entry] of Object.entries(parsed)) {
+      if (
+        entry &&
+        typeof entry.key === "string" &&
+        typeof entry.createdAt === "number" &&
+        now - entry.createdAt < PENDING_KEY_TTL_MS
+      ) {
+        fresh[scope] = entry;
+      }
+    }
+
+    return fresh;
+  } catch {
+    return {};
+  }
+}
+
+function savePendingKeys(keys: Record<string, PendingIdempotencyKey>): void {
+  if (Object.keys(keys).length === 0) {
+    sessionStorage.removeItem(PENDING_KEYS_KEY);
+    return;
+  }
+
+  sessionStorage.setItem(PENDING_KEYS_KEY, JSON.stringify(keys));
+}
+
+/**
+ * Returns the key of a still-pending operation for `scope`, or creates and
+ * persists a new one. The key survives reloads until the operation settles.
+ */
+export function acquireIdempotencyKey(scope: string): string {
+  if (typeof window === "undefined") return generateIdempotencyKey();
+
+  const keys = loadPendingKeys();
+  const existing = keys[scope];
+  if (existing) {
+    return existing.key;
+  }
+
+  const key = generateIdempotencyKey();
+  keys[scope] = { key, createdAt: Date.now() };
+  savePendingKeys(keys);
+
+  return key;
+}
+
+export function releaseIdempotencyKey(scope: string): void {
+  if (typeof window === "undefined") return;
+
+  const keys = loadPendingKeys();
+  if (!(scope in keys)) return;
+
+  delete keys[scope];
+  savePendingKeys(keys);
+}
@@ -0,0 +1,267 @@
+import { createAbortError, isAbortError } from "./httpClient";
+
+// Small in-memory cache for read queries. Concurrent fetches of the same key
+// share one request, cached data stays readable while it is revalidated, and
+// invalidated entries that are still on screen are refetched right away.
+
+export type QueryKey = readonly unknown[];
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export type QueryState<T> = {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number | null;
+  isFetching: boolean;
+  // True from invalidateQueries() until the next successful fetch.
+  isInvalidated: boolean;
+};
+
+type InFlightQuery = {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+};
+
+type CacheEntry = {
+  key: QueryKey;
+  state: QueryState<unknown>;
+  listeners: Set<() => void>;
+  fetcher: QueryFetcher<unknown> | null;
+  inFlight: InFlightQuery | null;
+};
+
+const MAX_ENTRIES = 100;
+
+const INITIAL_STATE: QueryState<never> = {
+  data: undefined,
+  error: null,
+  updatedAt: null,
+  isFetching: false,
+  isInvalidated: false,
+};
+
+const entries = new Map<string, CacheEntry>();
+
+export function serializeQueryKey(key: QueryKey): string {
+  return JSON.stringify(key);
+}
+
+function getOrCreateEntry(key: QueryKey): CacheEntry {
+  const hash = serializeQueryKey(key);
+  const existing = entries.get(hash);
+  if (existing) return existing;
+
+  const entry: CacheEntry = {
+    key,
+    state: INITIAL_STATE,
+    listeners: new Set(),
+    fetcher: null,
+    inFlight: null,
+  };
+  entries.set(hash, entry);
+  evictUnusedEntries();
+
+  return entry;
+}
+
+// Drops the oldest entries nobody is watching once the cache grows too big.
+function evictUnusedEntries(): void {
+  if (entries.size <= MAX_ENTRIES) return;
+
+  for (const [hash, entry] of entries) {
+    if (entries.size <= MAX_ENTRIES) return;
+    if (entry.listeners.size > 0 || entry.inFlight) continue;
+    entries.delete(hash);
+  }
+}
+
+function setEntryState(
+  entry: CacheEntry,
+  patch: Partial<QueryState<unknown>>,
+): void {
+  entry.state = { ...entry.state, ...patch };
+
+  for (const listener of Array.from(entry.listeners)) {
+    listener();
+  }
+}
+
+function startFetch(entry: CacheEntry): InFlightQuery {
+  const fetcher = entry.fetcher!;
+
+  // A request replaced by a newer one (e.g. after an invalidation) is
+  // cancelled instead of being left to finish unused. Its waiters see an
+  // AbortError; the entry's state comes from the new request.
+  entry.inFlight?.controller.abort();
+
+  const controller = new AbortController();
+  const inFlight: InFlightQuery = {
+    promise: Promise.resolve(),
+    controller,
+    waiters: 0,
+  };
+
+  // Only the latest request for an entry may write its result, so a request
+  // superseded by an invalidation cannot overwrite fresher data.
+  inFlight.promise = fetcher(controller.signal).then(
+    (data) => {
+      if (entry.inFlight === inFlight) {
+        entry.inFlight = null;
+        setEntryState(entry, {
+          data,
+          error: null,
+          updatedAt: Date.now(),
+          isFetching: false,
+          isInvalidated: false,
+        });
+      }
+      return data;
+    },
+    (err: unknown) => {
+      if (entry.inFlight === inFlight) {
+        entry.inFlight = null;
+        setEntryState(entry, {
+          error: isAbortError(err) ? entry.state.error : err,
+          isFetching: false,
+        });
+      }
+      throw err;
+    },
+  );
+  // Refetches triggered by invalidation have no caller awaiting them.
+  inFlight.promise.catch(() => undefined);
+
+  entry.inFlight = inFlight;
+  setEntryState(entry, { isFetching: true });
+
+  return inFlight;
+}
+
+function joinInFlight<T>(
+  entry: CacheEntry,
+  inFlight: InFlightQuery,
+  signal?: AbortSignal,
+): Promise<T> {
+  inFlight.waiters += 1;
+
+  // Each waiter leaves exactly once: when the request settles, or earlier
+  // if its own signal aborts.
+  let joined = true;
+  const leave = () => {
+    if (!joined) return;
+    joined = false;
+    inFlight.waiters -= 1;
+  };
+
+  if (!signal) {
+    return inFlight.promise.finally(leave) as Promise<T>;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = () => {
+      signal.removeEventListener("abort", handleAbort);
+      leave();
+
+      // The shared request is cancelled once every caller has given up on it.
+      if (inFlight.waiters === 0 && entry.inFlight === inFlight) {
+        inFlight.controller.abort();
+        entry.inFlight = null;
+        setEntryState(entry, { isFetching: false });
+      }
+
+      reject(createAbortError());
+    };
+
+    if (signal.aborted) {
+      handleAbort();
+      return;
+    }
+
+    signal.addEventListener("abort", handleAbort);
+
+    inFlight.promise.then(
+      (data) => {
+        signal.removeEventListener("abort", handleAbort);
+        leave();
+        resolve(data as T);
+      },
+      (err: unknown) => {
+        signal.removeEventListener("abort", handleAbort);
+        leave();
+        reject(err);
+      },
+    );
+  });
+}
+
+// Resolves with fresh data for `key`, joining a request that is already in
+// flight for the same key instead of starting a second one.
+export function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  { signal }: { signal?: AbortSignal } = {},
+): Promise<T> {
+  const entry = getOrCreateEntry(key);
+  entry.fetcher = fetcher;
+
+  const inFlight = entry.inFlight ?? startFetch(entry);
+  return joinInFlight<T>(entry, inFlight, signal);
+}
+
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  const entry = entries.get(serializeQueryKey(key));
+  return (entry?.state ?? INITIAL_STATE) as QueryState<T>;
+}
+
+export function subscribeQuery(
+  key: QueryKey,
+  listener: () => void,
+): () => void {
+  const entry = getOrCreateEntry(key);
+  entry.listeners.add(listener);
+
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
+
+function matchesPrefix(key: QueryKey, prefix: QueryKey): boolean {
+  return prefix.every(
+    (part, index) =>
+      JSON.stringify(part ?? null) === JSON.stringify(key[index] ?? null),
+  );
+}
+
+// Marks every entry whose key starts with `prefix` as outdated. Entries that
+// are currently rendered are refetched immediately; the rest are refetched
+// the next time they are used. An empty prefix invalidates everything.
+export function invalidateQueries(prefix: QueryKey = []): void {
+  for (const entry of Array.from(entries.values())) {
+    if (!matchesPrefix(entry.key, prefix)) continue;
+
+    setEntryState(entry, { isInvalidated: true });
+
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      startFetch(entry);
+    }
+  }
+}
+
+// Forgets all cached data, e.g. when the signed-in user changes.
+export function clearQueryCache(): void {
+  for (const [hash, entry] of Array.from(entries)) {
+    entry.inFlight?.controller.abort();
+    entry.inFlight = null;
+
+    if (entry.listeners.size > 0) {
+      entry.fetcher = null;
+      entry.state = INITIAL_STATE;
+      for (const listener of Array.from(entry.listeners)) {
+        listener();
+      }
+    } else {
+      entries.delete(hash);
+    }
+  }
+}
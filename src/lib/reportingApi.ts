@@ -0,0 +1,264 @@
+import { apiRequest } from "./httpClient";
+import { API_ENDPOINTS } from "./apiEndpoints";
+import {
+  buildDataTablesQueryParams,
+  dataTablesResponseDecoder,
+  type DataTablesOrder,
+} from "./dataTables";
+import {
+  array,
+  literal,
+  nullable,
+  number,
+  object,
+  string,
+  type Decoder,
+} from "./decoders";
+import type { TimeGranularity } from "./timeBuckets";
+import { businessDateToInstant, getBusinessTimeZone } from "./businessTimeZone";
+
+export type TopTransactionRow = {
+  username: string;
+  amount: number;
+};
+
+export type TopUserRow = {
+  username: string;
+  transacted_value: number;
+};
+
+export type TransactionType = "DEBIT" | "CREDIT";
+
+export type TransactionRow = {
+  id: string;
+  createdAt: string;
+  amount: number;
+  type: TransactionType;
+  from_username: string | null;
+  to_username: string;
+};
+
+// Both bounds are YYYY-MM-DD dates in the business timezone and are sent as
+// the instant of that day's midnight. `dateTo` is exclusive.
+export interface ReportingDateRange {
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface ReportingRequestOptions {
+  token?: string | null;
+  signal?: AbortSignal;
+}
+
+export interface TransactionsPageQuery extends ReportingDateRange {
+  start: number;
+  length: number;
+  search?: string;
+  id?: string;
+  type?: TransactionType;
+  from?: string;
+  to?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  order?: DataTablesOrder[];
+}
+
+export interface TransactionsPage {
+  data: TransactionRow[];
+  recordsTotal: number;
+  recordsFiltered: number;
+}
+
+// One aggregated bucket; `date` is the bucket key described in timeBuckets.
+// Amounts are absolute sums per direction; with a type filter the other
+// direction is 0.
+export type VolumeBucketRow = {
+  date: string;
+  credit: number;
+  debit: number;
+  count: number;
+};
+
+export interface TransactionsVolumeQuery extends ReportingDateRange {
+  granularity: TimeGranularity;
+  type?: TransactionType;
+  // Only transactions sent or received by this user.
+  username?: string;
+}
+
+export const topTransactionRowDecoder: Decoder<TopTransactionRow> = object({
+  username: string,
+  amount: number,
+});
+
+export const topUserRowDecoder: Decoder<TopUserRow> = object({
+  username: string,
+  transacted_value: number,
+});
+
+export const transactionRowDecoder: Decoder<TransactionRow> = object({
+  id: string,
+  createdAt: string,
+  amount: number,
+  type: literal("DEBIT", "CREDIT"),
+  from_username: nullable(string),
+  to_username: string,
+});
+
+export const volumeBucketRowDecoder: Decoder<VolumeBucketRow> = object({
+  date: string,
+  credit: number,
+  debit: number,
+  count: number,
+});
+
+const transactionsPageDecoder: Decoder<TransactionsPage> =
+  dataTablesResponseDecoder(transactionRowDecoder);
+
+const balanceDecoder = object({ balance: number });
+
+function setRangeParams(
+  params: URLSearchParams,
+  range: ReportingDateRange,
+): void {
+  if (range.dateFrom) {
+    params.set("dateFrom", businessDateToInstant(range.dateFrom));
+  }
+  if (range.dateTo) {
+    params.set("dateTo", businessDateToInstant(range.dateTo));
+  }
+}
+
+function withRange(endpoint: string, range: ReportingDateRange): string {
+  const params = new URLSearchParams();
+  setRangeParams(params, range);
+
+  return params.toString().length > 0
+    ? `${endpoint}?${params.toString()}`
+    : endpoint;
+}
+
+export async function getTopTransactionsPerUser(
+  range: ReportingDateRange,
+  { token, signal }: ReportingRequestOptions = {},
+): Promise<TopTransactionRow[]> {
+  return apiRequest({
+    path: withRange(API_ENDPOINTS.topTransactionsPerUser, range),
+    method: "GET",
+    token,
+    signal,
+    headers: {
+      Accept: "application/json",
+    },
+    decoder: array(topTransactionRowDecoder),
+  });
+}
+
+export async function getTopUsers(
+  range: ReportingDateRange,
+  { token, signal }: ReportingRequestOptions = {},
+): Promise<TopUserRow[]> {
+  return apiRequest({
+    path: withRange(API_ENDPOINTS.topUsers, range),
+    method: "GET",
+    token,
+    signal,
+    headers: {
+      Accept: "application/json",
+    },
+    decoder: array(topUserRowDecoder),
+  });
+}
+
+export async function getTransactionsPage(
+  query: TransactionsPageQuery,
+  { token, signal }: ReportingRequestOptions = {},
+): Promise<TransactionsPage> {
+  const params = buildDataTablesQueryParams({
+    start: query.start,
+    length: query.length,
+    search: query.search,
+    order: query.order,
+    extraFilters: {
+      dateFrom: query.dateFrom && businessDateToInstant(query.dateFrom),
+      dateTo: query.dateTo && businessDateToInstant(query.dateTo),
+      id: query.id,
+      type: query.type,
+      from: query.from,
+      to: query.to,
+      minAmount: query.minAmount,
+      maxAmount: query.maxAmount,
+    },
+  });
+
+  return apiRequest({
+    path: `${API_ENDPOINTS.transactions}?${params.toString()}`,
+    method: "GET",
+    token,
+    signal,
+    headers: {
+      Accept: "application/json",
+    },
+    decoder: transactionsPageDecoder,
+  });
+}
+
+// There is no single-transaction endpoint, so the record is looked up in the
+// list by id. Only an exact id match is returned; null when there is none.
+export async function getTransaction(
+  id: string,
+  options: ReportingRequestOptions = {},
+): Promise<TransactionRow | null> {
+  const page = await getTransactionsPage(
+    { start: 0, length: 10, search: id, id },
+    options,
+  );
+  return page.data.find((row) => row.id === id) ?? null;
+}
+
+export async function getTransactionsVolume(
+  query: TransactionsVolumeQuery,
+  { token, signal }: ReportingRequestOptions = {},
+): Promise<VolumeBucketRow[]> {
+  // The backend buckets in the same timezone as the dashboard.
+  const params = new URLSearchParams({
+    granularity: query.granularity,
+    timeZone: getBusinessTimeZone(),
+  });
+  setRangeParams(params, query);
+  if (query.type) {
+    params.set("type", query.type);
+  }
+  if (query.username) {
+    params.set("username", query.username);
+  }
+
+  return apiRequest({
+    path: `${API_ENDPOINTS.transactionsVolume}?${params.toString()}`,
+    method: "GET",
+    token,
+    signal,
+    headers: {
+      Accept: "application/json",
+    },
+    decoder: array(volumeBucketRowDecoder),
+  });
+}
+
+export async function getBalance({
+  token,
+  signal,
+}: ReportingRequestOptions = {}): Promise<number> {
+  const response = await apiRequest({
+    path: API_ENDPOINTS.balance,
+    method: "GET",
+    token,
+    signal,
+    headers: {
+      Accept: "application/json",
+    },
+    decoder: balanceDecoder,
+  });
+
+  return response.balance;
+}
@@ -0,0 +1,101 @@
+import {
+  array,
+  literal,
+  nullable,
+  number,
+  object,
+  record,
+  string,
+  type Decoder,
+} from "./decoders";
+import type { TableSortKey } from "./tableUrlState";
+
+// What a saved view restores. Search text and the current page are
+// deliberately left out.
+export type TableViewState = {
+  filters: Record<string, string>;
+  sort: TableSortKey[];
+  pageSize: number;
+  hiddenColumns: string[];
+};
+
+export type SavedTableView = {
+  id: string;
+  name: string;
+  state: TableViewState;
+};
+
+export type SavedTableViews = {
+  views: SavedTableView[];
+  // Applied when the table opens without state in the URL.
+  defaultViewId: string | null;
+};
+
+const VIEWS_KEY_PREFIX = "savedTableViews";
+
+const EMPTY_VIEWS: SavedTableViews = { views: [], defaultViewId: null };
+
+const tableViewStateDecoder: Decoder<TableViewState> = object({
+  filters: record(string),
+  sort: array(object({ columnId: string, dir: literal("asc", "desc") })),
+  pageSize: number,
+  hiddenColumns: array(string),
+});
+
+const savedTableViewsDecoder: Decoder<SavedTableViews> = object({
+  views: array(
+    object({
+      id: string,
+      name: string,
+      state: tableViewStateDecoder,
+    }),
+  ),
+  defaultViewId: nullable(string),
+});
+
+// Views are kept per user and per table.
+function getViewsKey(tableId: string, username: string | null): string {
+  return `${VIEWS_KEY_PREFIX}:${username ?? ""}:${tableId}`;
+}
+
+export function loadSavedTableViews(
+  tableId: string,
+  username: string | null,
+): SavedTableViews {
+  if (typeof window === "undefined") return EMPTY_VIEWS;
+
+  const stored = localStorage.getItem(getViewsKey(tableId, username));
+  if (!stored) return EMPTY_VIEWS;
+
+  try {
+    return savedTableViewsDecoder(JSON.parse(stored));
+  } catch {
+    return EMPTY_VIEWS;
+  }
+}
+
+export function storeSavedTableViews(
+  tableId: string,
+  username: string | null,
+  views: SavedTableViews,
+): void {
+  if (typeof window === "undefined") return;
+
+  localStorage.setItem(getViewsKey(tableId, username), JSON.stringify(views));
+}
+
+export function serializeSavedTableViews(views: SavedTableViews): string {
+  return JSON.stringify(views, null, 2);
+}
+
+// Throws a SyntaxError or DecodeError when the file is not a views export.
+export function parseSavedTableViews(json: string): SavedTableViews {
+  return savedTableViewsDecoder(JSON.parse(json));
+}
+
+export function createViewId(): string {
+  if (typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
@@ -0,0 +1,81 @@
+import {
+  array,
+  literal,
+  number,
+  object,
+  record,
+  string,
+  type Decoder,
+} from "./decoders";
+
+export type FilterPlacement = "header" | "footer" | "none";
+
+// How a user arranged one table's columns. Ids missing from `order` (e.g.
+// columns added later) keep their defined position after the ordered ones.
+export type TableColumnPrefs = {
+  order: string[];
+  hidden: string[];
+  // Pixel widths of resized columns; others size to their content.
+  widths: Record<string, number>;
+  filterPlacement: FilterPlacement;
+};
+
+export const DEFAULT_COLUMN_PREFS: TableColumnPrefs = {
+  order: [],
+  hidden: [],
+  widths: {},
+  filterPlacement: "header",
+};
+
+export const MIN_COLUMN_WIDTH = 60;
+
+const PREFS_KEY_PREFIX = "tableColumns";
+
+const tableColumnPrefsDecoder: Decoder<TableColumnPrefs> = object({
+  order: array(string),
+  hidden: array(string),
+  widths: record(number),
+  filterPlacement: literal("header", "footer", "none"),
+});
+
+// Preferences are kept per user and per table.
+function getPrefsKey(tableId: string, username: string | null): string {
+  return `${PREFS_KEY_PREFIX}:${username ?? ""}:${tableId}`;
+}
+
+export function loadTableColumnPrefs(
+  tableId: string,
+  username: string | null,
+): TableColumnPrefs {
+  if (typeof window === "undefined") return DEFAULT_COLUMN_PREFS;
+
+  const stored = localStorage.getItem(getPrefsKey(tableId, username));
+  if (!stored) return DEFAULT_COLUMN_PREFS;
+
+  try {
+    return tableColumnPrefsDecoder(JSON.parse(stored));
+  } catch {
+    return DEFAULT_COLUMN_PREFS;
+  }
+}
+
+export function storeTableColumnPrefs(
+  tableId: string,
+  username: string | null,
+  prefs: TableColumnPrefs,
+): void {
+  if (typeof window === "undefined") return;
+
+  localStorage.setItem(getPrefsKey(tableId, username), JSON.stringify(prefs));
+}
+
+export function orderColumns<T extends { id: string }>(
+  columns: T[],
+  order: string[],
+): T[] {
+  const position = new Map(order.map((id, index) => [id, index]));
+  const ordered = columns.filter((column) => position.has(column.id));
+  ordered.sort((a, b) => position.get(a.id)! - position.get(b.id)!);
+
+  return [...ordered, ...columns.filter((column) => !position.has(column.id))];
+}
@@ -0,0 +1,196 @@
+import { apiRequest } from "./httpClient";
+import {
+  buildDataTablesQueryParams,
+  dataTablesResponseDecoder,
+  type DataTablesApiResponse,
+  type DataTablesQueryOptions,
+} from "./dataTables";
+import type { Decoder } from "./decoders";
+import { buildXlsx, type SpreadsheetCell } from "./xlsx";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export type ExportColumn<TData> = {
+  header: string;
+  getValue: (row: TData) => SpreadsheetCell;
+};
+
+export type ExportProgress = {
+  loaded: number;
+  total: number;
+};
+
+export interface TableRowsOptions<TData> {
+  endpoint: string;
+  token?: string | null;
+  // The table's current query; paging is replaced while fetching.
+  query: DataTablesQueryOptions;
+  decodeRow?: Decoder<TData>;
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+  // Fails before fetching more than this many rows; defaults to
+  // MAX_EXPORT_ROWS.
+  maxRows?: number;
+}
+
+export interface TableExportOptions<TData> extends TableRowsOptions<TData> {
+  columns: ExportColumn<TData>[];
+  format: ExportFormat;
+}
+
+const EXPORT_PAGE_SIZE = 100;
+
+// Exports are assembled in memory before the file is handed to the browser,
+// so the number of rows is capped.
+export const MAX_EXPORT_ROWS = 50_000;
+
+export class ExportTooLargeError extends Error {
+  total: number;
+  maxRows: number;
+
+  constructor(total: number, maxRows: number) {
+    super(
+      `${total.toLocaleString("en-US")} rows match, but at most ${maxRows.toLocaleString("en-US")} can be exported at once. Narrow the filters and try again.`,
+    );
+    this.total = total;
+    this.maxRows = maxRows;
+  }
+}
+
+// Spreadsheet apps run cells starting with these as formulas.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function toCsvCell(value: SpreadsheetCell): string {
+  if (value === null) return "";
+  if (typeof value === "number") return String(value);
+
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function toCsvLine(cells: SpreadsheetCell[]): string {
+  return `${cells.map(toCsvCell).join(",")}\r\n`;
+}
+
+// Pages through the endpoint with the table's filters, search and sort,
+// handing each page of rows to `onPage`.
+async function forEachTablePage<TData>(
+  {
+    endpoint,
+    token,
+    query,
+    decodeRow,
+    signal,
+    onProgress,
+    maxRows = MAX_EXPORT_ROWS,
+  }: TableRowsOptions<TData>,
+  onPage: (rows: TData[]) => void,
+): Promise<void> {
+  let start = 0;
+  let loaded = 0;
+
+  for (;;) {
+    const params = buildDataTablesQueryParams({
+      ...query,
+      start,
+      length: EXPORT_PAGE_SIZE,
+    });
+    const response = await apiRequest<DataTablesApiResponse<TData>>({
+      path: `${endpoint}?${params.toString()}`,
+      method: "GET",
+      token: token ?? undefined,
+      headers: {
+        Accept: "application/json",
+      },
+      decoder: decodeRow ? dataTablesResponseDecoder(decodeRow) : undefined,
+      signal,
+    });
+
+    const matching = response.recordsFiltered ?? 0;
+    if (matching > maxRows) {
+      throw new ExportTooLargeError(matching, maxRows);
+    }
+
+    const rows = response.data ?? [];
+    onPage(rows);
+
+    loaded += rows.length;
+    const total = Math.max(response.recordsFiltered ?? 0, loaded);
+    onProgress?.({ loaded, total });
+
+    if (rows.length < EXPORT_PAGE_SIZE || loaded >= total) {
+      break;
+    }
+    start += EXPORT_PAGE_SIZE;
+  }
+}
+
+// Every row matching the table's query, e.g. for bulk actions on a whole
+// result set.
+export async function fetchAllTableRows<TData>(
+  options: TableRowsOptions<TData>,
+): Promise<TData[]> {
+  const rows: TData[] = [];
+  await forEachTablePage<TData>(options, (page) => {
+    rows.push(...page);
+  });
+  return rows;
+}
+
+// Builds a file from every matching row, up to `maxRows`. Pages are turned
+// into CSV lines or sheet rows as they arrive, so raw rows are not kept
+// around, but the whole file is held in memory until the Blob is created.
+export async function exportTable<TData>({
+  columns,
+  format,
+  ...options
+}: TableExportOptions<TData>): Promise<Blob> {
+  const headers = columns.map((column) => column.header);
+  // The byte order mark makes Excel read the CSV as UTF-8.
+  const csvChunks: string[] = ["\uFEFF", toCsvLine(headers)];
+  const sheetRows: SpreadsheetCell[][] = [headers];
+
+  await forEachTablePage<TData>(options, (rows) => {
+    for (const row of rows) {
+      const cells = columns.map((column) => column.getValue(row));
+      if (format === "csv") {
+        csvChunks.push(toCsvLine(cells));
+      } else {
+        sheetRows.push(cells);
+      }
+    }
+  });
+
+  return format === "csv"
+    ? new Blob(csvChunks, { type: "text/csv;charset=utf-8" })
+    : buildXlsx(sheetRows);
+}
+
+// Same file format as `exportTable`, for rows already in memory.
+export function buildExportFile<TData>(
+  rows: TData[],
+  columns: ExportColumn<TData>[],
+  format: ExportFormat,
+): Blob {
+  const headers = columns.map((column) => column.header);
+  const cells = rows.map((row) =>
+    columns.map((column) => column.getValue(row)),
+  );
+
+  return format === "csv"
+    ? new Blob(["\uFEFF", ...[headers, ...cells].map(toCsvLine)], {
+        type: "text/csv;charset=utf-8",
+      })
+    : buildXlsx([headers, ...cells]);
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
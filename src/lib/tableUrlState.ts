@@ -0,0 +1,125 @@
+// Query-string form of a server table's state, so reloading or sharing a
+// link restores the same view. Every parameter is namespaced with the
+// table's prefix (`tx.page`, `tx.from`, ...) so several tables can share
+// one URL.
+
+// Column id, not index, so links survive column changes.
+export type TableSortKey = {
+  columnId: string;
+  dir: "asc" | "desc";
+};
+
+export type TableUrlState = {
+  // Raw filter inputs keyed like ServerDataTable's filter state.
+  filters: Record<string, string>;
+  search: string;
+  // By priority; written as `sort=createdAt:desc,amount:asc`.
+  sort: TableSortKey[];
+  pageIndex: number;
+  pageSize: number;
+};
+
+// Filter keys must not use these names.
+const RESERVED_KEYS = ["q", "page", "size", "sort"];
+
+export function getTableParamName(prefix: string, key: string): string {
+  return `${prefix}.${key}`;
+}
+
+export function readTableUrlState(
+  params: URLSearchParams,
+  prefix: string,
+  defaults: Pick<TableUrlState, "pageSize">,
+): TableUrlState {
+  const get = (key: string) => params.get(getTableParamName(prefix, key)) ?? "";
+
+  const filters: Record<string, string> = {};
+  const filterPrefix = `${prefix}.`;
+  for (const [name, value] of params) {
+    if (!name.startsWith(filterPrefix)) continue;
+    const key = name.slice(filterPrefix.length);
+    if (!RESERVED_KEYS.includes(key)) {
+      filters[key] = value;
+    }
+  }
+
+  const sort: TableSortKey[] = [];
+  for (const part of get("sort").split(",")) {
+    const [columnId, dir] = part.split(":");
+    if (columnId && !sort.some((key) => key.columnId === columnId)) {
+      sort.push({ columnId, dir: dir === "asc" ? "asc" : "desc" });
+    }
+  }
+
+  const page = Number.parseInt(get("page"), 10);
+  const size = Number.parseInt(get("size"), 10);
+
+  return {
+    filters,
+    search: get("q"),
+    sort,
+    pageIndex: Number.isFinite(page) && page > 1 ? page - 1 : 0,
+    pageSize: Number.isFinite(size) && size > 0 ? size : defaults.pageSize,
+  };
+}
+
+// Returns a copy of `params` with the table's parameters replaced. Values
+// equal to the defaults are left out to keep links short.
+export function writeTableUrlState(
+  params: URLSearchParams,
+  prefix: string,
+  state: TableUrlState,
+  defaults: Pick<TableUrlState, "pageSize">,
+): URLSearchParams {
+  const next = new URLSearchParams();
+  const ownPrefix = `${prefix}.`;
+  for (const [name, value] of params) {
+    if (!name.startsWith(ownPrefix)) {
+      next.append(name, value);
+    }
+  }
+
+  const set = (key: string, value: string) =>
+    next.set(getTableParamName(prefix, key), value);
+
+  for (const [key, value] of Object.entries(state.filters)) {
+    const trimmed = value.trim();
+    if (trimmed && !RESERVED_KEYS.includes(key)) {
+      set(key, trimmed);
+    }
+  }
+  if (state.search) {
+    set("q", state.search);
+  }
+  if (state.sort.length > 0) {
+    set(
+      "sort",
+      state.sort.map((key) => `${key.columnId}:${key.dir}`).join(","),
+    );
+  }
+  if (state.pageIndex > 0) {
+    set("page", String(state.pageIndex + 1));
+  }
+  if (state.pageSize !== defaults.pageSize) {
+    set("size", String(state.pageSize));
+  }
+
+  return next;
+}
+
+// Canonical string of the table's own parameters, used to tell whether the
+// URL and the table state have drifted apart.
+export function getTableUrlSnapshot(
+  params: URLSearchParams,
+  prefix: string,
+): string {
+  const own = new URLSearchParams();
+  const ownPrefix = `${prefix}.`;
+  for (const [name, value] of params) {
+    if (name.startsWith(ownPrefix)) {
+      own.append(name, value);
+    }
+  }
+  own.sort();
+  return own.toString();
+}
@@ -0,0 +1,218 @@
+import type { ReportingDateRange } from "./reportingApi";
+import { getBusinessTimeZone, getZonedParts } from "./businessTimeZone";
+
+export type TimeGranularity = "hour" | "day" | "week" | "month";
+
+export const TIME_GRANULARITIES: TimeGranularity[] = [
+  "hour",
+  "day",
+  "week",
+  "month",
+];
+
+// Above this many buckets zero-filling is skipped, so an hourly view of a long
+// range does not turn into thousands of empty points.
+export const MAX_FILLED_BUCKETS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bucket keys are the bucket start in wall-clock time:
+//   hour  -> YYYY-MM-DDTHH:00
+//   day   -> YYYY-MM-DD
+//   week  -> YYYY-MM-DD (the Monday)
+//   month -> YYYY-MM
+const BUCKET_KEY_PATTERN = /^(\d{4})-(\d{2})(?:-(\d{2})(?:T(\d{2}):00)?)?$/;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Bucket arithmetic runs on the UTC fields of a Date holding the wall-clock
+// time in the business timezone, so it is not affected by the browser's
+// timezone or DST transitions.
+function toWallClock(date: Date, timeZone: string): Date {
+  const { year, month, day, hour } = getZonedParts(date, timeZone);
+  return new Date(Date.UTC(year, month - 1, day, hour));
+}
+
+function parseBucketKey(key: string): Date | null {
+  const match = BUCKET_KEY_PATTERN.exec(key);
+  if (!match) return null;
+
+  const [, year, month, day = "01", hour = "00"] = match;
+  return new Date(
+    Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour)),
+  );
+}
+
+function startOfBucket(wallClock: Date, granularity: TimeGranularity): Date {
+  const start = new Date(wallClock.getTime());
+  start.setUTCMinutes(0, 0, 0);
+  if (granularity === "hour") return start;
+
+  start.setUTCHours(0);
+  if (granularity === "day") return start;
+
+  if (granularity === "week") {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+    return start;
+  }
+
+  start.setUTCDate(1);
+  return start;
+}
+
+function nextBucket(start: Date, granularity: TimeGranularity): Date {
+  const next = new Date(start.getTime());
+
+  if (granularity === "hour") {
+    next.setUTCHours(next.getUTCHours() + 1);
+  } else if (granularity === "day") {
+    next.setUTCDate(next.getUTCDate() + 1);
+  } else if (granularity === "week") {
+    next.setUTCDate(next.getUTCDate() + 7);
+  } else {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  }
+
+  return next;
+}
+
+function formatBucketKey(start: Date, granularity: TimeGranularity): string {
+  const year = start.getUTCFullYear();
+  const month = pad(start.getUTCMonth() + 1);
+  const day = pad(start.getUTCDate());
+
+  if (granularity === "month") {
+    return `${year}-${month}`;
+  }
+  if (granularity === "hour") {
+    return `${year}-${month}-${day}T${pad(start.getUTCHours())}:00`;
+  }
+  return `${year}-${month}-${day}`;
+}
+
+export function getBucketKey(
+  date: Date,
+  granularity: TimeGranularity,
+  timeZone: string = getBusinessTimeZone(),
+): string {
+  return formatBucketKey(
+    startOfBucket(toWallClock(date, timeZone), granularity),
+    granularity,
+  );
+}
+
+// Picks a granularity that keeps the number of x-axis labels readable.
+// Open-ended ranges ("all") fall back to monthly buckets.
+export function getAutoGranularity(range: ReportingDateRange): TimeGranularity {
+  const from = range.dateFrom ? parseBucketKey(range.dateFrom) : null;
+  const to = range.dateTo ? parseBucketKey(range.dateTo) : null;
+
+  if (!from || !to) {
+    return "month";
+  }
+
+  const days = (to.getTime() - from.getTime()) / DAY_MS;
+
+  if (days <= 2) return "hour";
+  if (days <= 92) return "day";
+  if (days <= 366) return "week";
+  return "month";
+}
+
+// Inserts empty buckets between the range bounds (or the first and last point
+// when the range is open) so gaps in activity stay visible on the chart.
+export function fillEmptyBuckets<T extends { date: string }>(
+  points: T[],
+  granularity: TimeGranularity,
+  range: ReportingDateRange,
+  makeEmpty: (key: string) => T,
+): T[] {
+  const sorted = [...points].sort((a, b) => a.date.localeCompare(b.date));
+
+  const firstKey = range.dateFrom ?? sorted[0]?.date;
+  const first = firstKey ? parseBucketKey(firstKey) : null;
+  const lastPoint = sorted.length > 0 ? sorted[sorted.length - 1] : null;
+  const lastStart = lastPoint ? parseBucketKey(lastPoint.date) : null;
+  const endExclusive = range.dateTo
+    ? parseBucketKey(range.dateTo)
+    : lastStart
+      ? nextBucket(lastStart, granularity)
+      : null;
+
+  if (!first || !endExclusive) {
+    return sorted;
+  }
+
+  const keys: string[] = [];
+  for (
+    let cursor = startOfBucket(first, granularity);
+    cursor < endExclusive;
+    cursor = nextBucket(cursor, granularity)
+  ) {
+    if (keys.length >= MAX_FILLED_BUCKETS) {
+      return sorted;
+    }
+    keys.push(formatBucketKey(cursor, granularity));
+  }
+
+  const byKey = new Map(sorted.map((point) => [point.date, point]));
+  const filled = keys.map((key) => byKey.get(key) ?? makeEmpty(key));
+
+  // Keep points the backend placed outside the requested bounds.
+  const known = new Set(keys);
+  const outside = sorted.filter((point) => !known.has(point.date));
+
+  return outside.length > 0
+    ? [...filled, ...outside].sort((a, b) => a.date.localeCompare(b.date))
+    : filled;
+}
+
+// First and last calendar day (inclusive, YYYY-MM-DD) covered by a bucket.
+// Hourly buckets resolve to their whole day.
+export function getBucketDateRange(
+  key: string,
+  granularity: TimeGranularity,
+): { from: string; to: string } | null {
+  const start = parseBucketKey(key);
+  if (!start) return null;
+
+  const span = granularity === "hour" ? "day" : granularity;
+  const first = startOfBucket(start, span);
+  const end = nextBucket(first, span);
+  end.setUTCDate(end.getUTCDate() - 1);
+
+  return {
+    from: formatBucketKey(first, "day"),
+    to: formatBucketKey(end, "day"),
+  };
+}
+
+const bucketLabelFormats: Record<TimeGranularity, Intl.DateTimeFormatOptions> =
+  {
+    hour: {
+      day: "2-digit",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    },
+    day: { day: "2-digit", month: "short" },
+    week: { day: "2-digit", month: "short" },
+    month: { month: "short", year: "numeric" },
+  };
+
+export function formatBucketLabel(
+  key: string,
+  granularity: TimeGranularity,
+): string {
+  const start = parseBucketKey(key);
+  if (!start) return key;
+
+  const label = new Intl.DateTimeFormat("en-GB", {
+    ...bucketLabelFormats[granularity],
+    timeZone: "UTC",
+    hour12: false,
+  }).format(start);
+
+  return granularity === "week" ? `Week of ${label}` : label;
+}
@@ -0,0 +1,38 @@
+import { getTableParamName } from "./tableUrlState";
+
+// Links into the transactions list with filters pre-applied, e.g. from a
+// dashboard chart. Dates are inclusive YYYY-MM-DD business dates, the same
+// values the table's date filters hold.
+export type TransactionLinkFilters = {
+  from?: string;
+  to?: string;
+  type?: "CREDIT" | "DEBIT";
+  dateFrom?: string;
+  dateTo?: string;
+};
+
+// URL state prefix of the transactions table.
+export const TRANSACTIONS_TABLE_URL_KEY = "tx";
+
+const TRANSACTIONS_PATH = "/transactions";
+
+// Query parameter that opens a transaction in the list's detail drawer.
+export const TRANSACTION_DRAWER_PARAM = "transaction";
+
+// The transaction's own page, e.g. for support tickets.
+export function getTransactionLink(id: string): string {
+  return `${TRANSACTIONS_PATH}/${encodeURIComponent(id)}`;
+}
+
+export function getTransactionsLink(filters: TransactionLinkFilters): string {
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) {
+      params.set(getTableParamName(TRANSACTIONS_TABLE_URL_KEY, key), value);
+    }
+  }
+
+  const query = params.toString();
+  return query ? `${TRANSACTIONS_PATH}?${query}` : TRANSACTIONS_PATH;
+}
@@ -0,0 +1,37 @@
+import { apiRequest } from "./httpClient";
+import { API_ENDPOINTS } from "./apiEndpoints";
+
+export interface TopUpRequest {
+  amount: number;
+}
+
+export async function topUp(
+  request: TopUpRequest,
+  token: string | null | undefined,
+): Promise<void> {
+  await apiRequest<void>({
+    path: API_ENDPOINTS.topup,
+    method: "POST",
+    body: { amount: request.amount },
+    token,
+    idempotency: true,
+  });
+}
+
+export interface TransferRequest {
+  toUsername: string;
+  amount: number;
+}
+
+export async function transfer(
+  request: TransferRequest,
+  token: string | null | undefined,
+): Promise<void> {
+  await apiRequest<void>({
+    path: API_ENDPOINTS.transfer,
+    method: "POST",
+    body: { to_username: request.toUsername, amount: request.amount },
+    token,
+    idempotency: true,
+  });
+}
@@ -0,0 +1,30 @@
+import { invalidateQueries } from "./queryCache";
+
+type WalletChangeListener = () => void;
+
+const listeners = new Set<WalletChangeListener>();
+
+export function subscribeWalletChanged(
+  listener: WalletChangeListener,
+): () => void {
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Call after any request that moves money (top-up, transfer, ...) so that
+// widgets showing balances or transactions can refresh themselves. Every
+// cached query depends on wallet data, so the whole query cache is invalidated.
+export function notifyWalletChanged(): void {
+  invalidateQueries();
+
+  for (const listener of Array.from(listeners)) {
+    try {
+      listener();
+    } catch {
+      // ignore listener errors
+    }
+  }
+}
@@ -3,11 +3,15 @@ import { createRoot } from "react-dom/client";
 import "./index.css";
 import "swiper/swiper-bundle.css";
 import "flatpickr/dist/flatpickr.css";
+import { DndProvider } from "react-dnd";
+import { HTML5Backend } from "react-dnd-html5-backend";
 import App from "./App.tsx";
 import { AppWrapper } from "./components/common/PageMeta.tsx";
 import { ThemeProvider } from "./context/ThemeContext.tsx";
 import { AuthProvider } from "./context/AuthContext.tsx";
+import { BusinessTimeZoneProvider } from "./context/BusinessTimeZoneContext.tsx";
 import UnauthorizedHandler from "./components/auth/UnauthorizedHandler";
+import RetryNotifier from "./components/common/RetryNotifier";
 import { ToastProvider } from "./components/common/ToastProvider";
 import { GlobalLoadingProvider } from "./components/common/GlobalLoadingProvider";
 
@@ -15,14 +19,19 @@ createRoot(document.getElementById("root")!).render(
   <StrictMode>
     <ThemeProvider>
       <AuthProvider>
-        <AppWrapper>
-          <GlobalLoadingProvider>
-            <ToastProvider>
-              <UnauthorizedHandler />
-              <App />
-            </ToastProvider>
-          </GlobalLoadingProvider>
-        </AppWrapper>
+        <BusinessTimeZoneProvider>
+          <AppWrapper>
+            <GlobalLoadingProvider>
+              <ToastProvider>
+                <DndProvider backend={HTML5Backend}>
+                  <UnauthorizedHandler />
+                  <RetryNotifier />
+                  <App />
+                </DndProvider>
+              </ToastProvider>
+            </GlobalLoadingProvider>
+          </AppWrapper>
+        </BusinessTimeZoneProvider>
       </AuthProvider>
     </ThemeProvider>
   </StrictMode>,
@@ -3,6 +3,9 @@ import ComponentCard from "../../components/common/ComponentCard";
 import TopTransactionsPerUserChart from "../../components/charts/wallet/TopTransactionsPerUserChart";
 import TopUsersChart from "../../components/charts/wallet/TopUsersChart";
 import TransactionsVolumeChart from "../../components/charts/wallet/TransactionsVolumeChart";
+import DashboardFilterBar from "../../components/charts/common/DashboardFilterBar";
+import BalanceCard from "../../components/wallet/BalanceCard";
+import { DashboardFilterProvider } from "../../context/DashboardFilterContext";
 
 export default function Home() {
   return (
@@ -13,25 +16,36 @@ export default function Home() {
       showBreadcrumb={false}
       useCard={false}
     >
-      <div className="grid grid-cols-12 gap-4 md:gap-6">
-        <div className="col-span-12">
-          <ComponentCard title="Transactions Volume">
-            <TransactionsVolumeChart />
-          </ComponentCard>
-        </div>
+      {/* Widgets follow the filter bar unless they are unlinked locally */}
+      <DashboardFilterProvider>
+        <div className="grid grid-cols-12 gap-4 md:gap-6">
+          <div className="col-span-12 md:col-span-6 xl:col-span-4">
+            <BalanceCard />
+          </div>
 
-        <div className="col-span-12 xl:col-span-7">
-          <ComponentCard title="Top Transactions Per User">
-            <TopTransactionsPerUserChart />
-          </ComponentCard>
-        </div>
+          <div className="col-span-12">
+            <DashboardFilterBar />
+          </div>
+
+          <div className="col-span-12">
+            <ComponentCard title="Transactions Volume">
+              <TransactionsVolumeChart />
+            </ComponentCard>
+          </div>
+
+          <div className="col-span-12 xl:col-span-7">
+            <ComponentCard title="Top Transactions Per User">
+              <TopTransactionsPerUserChart />
+            </ComponentCard>
+          </div>
 
-        <div className="col-span-12 xl:col-span-5">
-          <ComponentCard title="Top Users by Outbound Value">
-            <TopUsersChart />
-          </ComponentCard>
+          <div className="col-span-12 xl:col-span-5">
+            <ComponentCard title="Top Users by Outbound Value">
+              <TopUsersChart />
+            </ComponentCard>
+          </div>
         </div>
-      </div>
+      </DashboardFilterProvider>
     </AdminPageShell>
   );
 }
@@ -0,0 +1,15 @@
+import AdminPageShell from "../../components/layout/AdminPageShell";
+import TimeZoneSettings from "../../components/settings/TimeZoneSettings";
+
+export default function Settings() {
+  return (
+    <AdminPageShell
+      metaTitle="Settings | Insignia Admin"
+      metaDescription="Configure dashboard preferences such as the business timezone."
+      pageTitle="Settings"
+      showBreadcrumb
+    >
+      <TimeZoneSettings />
+    </AdminPageShell>
+  );
+}
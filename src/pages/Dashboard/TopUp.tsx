@@ -0,0 +1,15 @@
+import AdminPageShell from "../../components/layout/AdminPageShell";
+import TopUpForm from "../../components/wallet/TopUpForm";
+
+export default function TopUp() {
+  return (
+    <AdminPageShell
+      metaTitle="Top Up | Insignia Admin"
+      metaDescription="Add funds to the wallet from the Insignia admin dashboard."
+      pageTitle="Top Up"
+      showBreadcrumb
+    >
+      <TopUpForm />
+    </AdminPageShell>
+  );
+}
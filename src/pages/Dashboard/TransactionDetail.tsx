@@ -0,0 +1,76 @@
+import { Link, useParams } from "react-router";
+import AdminPageShell from "../../components/layout/AdminPageShell";
+import TransactionDetailCard from "../../components/wallet/TransactionDetailCard";
+import { useTransaction } from "../../hooks/useReporting";
+import { getTransactionsLink } from "../../lib/transactionLinks";
+
+const STATE_CARD_CLASS =
+  "flex flex-col items-center justify-center gap-4 rounded-2xl border border-gray-200 bg-white px-5 py-16 text-center dark:border-gray-800 dark:bg-white/[0.03]";
+
+function TransactionNotFound({ id }: { id: string }) {
+  return (
+    <div className={STATE_CARD_CLASS}>
+      <img
+        src="/images/error/404.svg"
+        alt="404"
+        className="w-full max-w-[240px] dark:hidden"
+      />
+      <img
+        src="/images/error/404-dark.svg"
+        alt="404"
+        className="hidden w-full max-w-[240px] dark:block"
+      />
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white/90">
+        Transaction not found
+      </h3>
+      <p className="max-w-md text-sm text-gray-500 dark:text-gray-400">
+        There is no transaction with ID{" "}
+        <span className="font-mono break-all">{id}</span>. Check the link, or
+        search for it in the transactions list.
+      </p>
+      <Link
+        to={getTransactionsLink({})}
+        className="inline-flex items-center justify-center rounded-lg border border-gray-300 bg-white px-5 py-3.5 text-sm font-medium text-gray-700 shadow-theme-xs hover:bg-gray-50 hover:text-gray-800 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-white/[0.03] dark:hover:text-gray-200"
+      >
+        Back to transactions
+      </Link>
+    </div>
+  );
+}
+
+export default function TransactionDetail() {
+  const { transactionId = "" } = useParams();
+  const { data, loading, error, notFound } = useTransaction(
+    transactionId || null,
+  );
+
+  return (
+    <AdminPageShell
+      metaTitle={
+        notFound
+          ? "Transaction not found | Insignia Admin"
+          : "Transaction | Insignia Admin"
+      }
+      metaDescription="Details of a single wallet transaction in the Insignia admin dashboard."
+      pageTitle="Transaction"
+      showBreadcrumb
+      useCard={false}
+    >
+      {notFound ? (
+        <TransactionNotFound id={transactionId} />
+      ) : data ? (
+        <TransactionDetailCard transaction={data} />
+      ) : (
+        <div className={STATE_CARD_CLASS}>
+          <p
+            className={`text-sm ${
+              error ? "text-error-500" : "text-gray-500 dark:text-gray-400"
+            }`}
+          >
+            {error ?? (loading ? "Loading transaction..." : "")}
+          </p>
+        </div>
+      )}
+    </AdminPageShell>
+  );
+}
@@ -0,0 +1,15 @@
+import AdminPageShell from "../../components/layout/AdminPageShell";
+import TransferForm from "../../components/wallet/TransferForm";
+
+export default function Transfer() {
+  return (
+    <AdminPageShell
+      metaTitle="Transfer | Insignia Admin"
+      metaDescription="Transfer funds between wallets from the Insignia admin dashboard."
+      pageTitle="Transfer"
+      showBreadcrumb
+    >
+      <TransferForm />
+    </AdminPageShell>
+  );
+}